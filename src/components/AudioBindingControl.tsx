@@ -0,0 +1,60 @@
+import { Music } from 'lucide-react';
+import { AudioBand, AudioBinding } from '../types';
+import { AUDIO_BANDS } from '../utils/audioAnalysis';
+
+interface AudioBindingControlProps {
+  binding: AudioBinding | undefined;
+  onChange: (binding: AudioBinding | undefined) => void;
+}
+
+const DEFAULT_BINDING: Omit<AudioBinding, 'band'> = { gain: 0.5, smoothing: 0.5 };
+
+// Sits under a float or int uniform and lets an audio band push it around its set value
+export default function AudioBindingControl({ binding, onChange }: AudioBindingControlProps) {
+  return (
+    <div className="-mt-2 mb-4 text-xs text-gray-300">
+      <div className="flex items-center gap-2">
+        <Music size={12} className={binding ? 'text-pink-400' : 'text-gray-500'} />
+        <select
+          value={binding?.band ?? ''}
+          onChange={(e) => onChange(e.target.value
+            ? { ...DEFAULT_BINDING, ...binding, band: e.target.value as AudioBand }
+            : undefined)}
+          className="p-0.5 bg-gray-800 rounded text-white"
+          title="Audio band that modulates this uniform"
+        >
+          <option value="">No audio</option>
+          {AUDIO_BANDS.map(band => (
+            <option key={band.value} value={band.value}>{band.label}</option>
+          ))}
+        </select>
+        {binding && (
+          <>
+            <span>Gain</span>
+            <input
+              type="range"
+              min={-1}
+              max={1}
+              step={0.05}
+              value={binding.gain}
+              onChange={(e) => onChange({ ...binding, gain: parseFloat(e.target.value) })}
+              className="flex-1 min-w-0 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+              title={`Gain ${binding.gain.toFixed(2)} of the uniform's range`}
+            />
+            <span>Smooth</span>
+            <input
+              type="range"
+              min={0}
+              max={0.95}
+              step={0.05}
+              value={binding.smoothing}
+              onChange={(e) => onChange({ ...binding, smoothing: parseFloat(e.target.value) })}
+              className="flex-1 min-w-0 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+              title={`Smoothing ${binding.smoothing.toFixed(2)}`}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
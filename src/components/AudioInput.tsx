@@ -0,0 +1,193 @@
+import { MutableRefObject, useEffect, useRef, useState } from 'react';
+import { AudioSourceMode } from '../types';
+import {
+  AUDIO_FFT_SIZE,
+  AUDIO_MAX_DECIBELS,
+  AUDIO_MIN_DECIBELS,
+  AUDIO_TEXTURE_ROWS,
+  AUDIO_TEXTURE_WIDTH,
+  AudioBandValues,
+  SILENT_BANDS,
+  analyseAudio,
+  createBeatDetector,
+} from '../utils/audioAnalysis';
+
+// What the renderer reads each frame; silent while audio is off or paused
+export interface AudioInputState {
+  bands: AudioBandValues;
+  spectrum: Uint8Array; // AUDIO_TEXTURE_WIDTH * AUDIO_TEXTURE_ROWS luminance texels
+  spectrumChanged: boolean;
+}
+
+// An empty spectrum and a flat waveform, which sits at 128
+function silence(state: AudioInputState) {
+  state.bands = { ...SILENT_BANDS };
+  state.spectrum.fill(0, 0, AUDIO_TEXTURE_WIDTH);
+  state.spectrum.fill(128, AUDIO_TEXTURE_WIDTH);
+  state.spectrumChanged = true;
+}
+
+export function createAudioInputState(): AudioInputState {
+  const state = {
+    bands: { ...SILENT_BANDS },
+    spectrum: new Uint8Array(AUDIO_TEXTURE_WIDTH * AUDIO_TEXTURE_ROWS),
+    spectrumChanged: true,
+  };
+  silence(state);
+  return state;
+}
+
+interface AudioGraph {
+  context: AudioContext;
+  analyser: AnalyserNode;
+  output: GainNode;
+}
+
+interface AudioInputProps {
+  mode: AudioSourceMode;
+  // The source's video element, once it has loaded
+  sourceElement: HTMLMediaElement | null;
+  fileUrl: string | null;
+  isPlaying: boolean;
+  // Whether the analysed audio is also played out loud
+  monitor: boolean;
+  audioStateRef: MutableRefObject<AudioInputState>;
+  onAudioError: (message: string) => void;
+}
+
+export function useAudioInput({
+  mode,
+  sourceElement,
+  fileUrl,
+  isPlaying,
+  monitor,
+  audioStateRef,
+  onAudioError,
+}: AudioInputProps) {
+  const graphRef = useRef<AudioGraph | null>(null);
+  // createMediaElementSource only works once per element, so nodes are reused
+  const elementNodesRef = useRef(new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>());
+  const [fileElement, setFileElement] = useState<HTMLAudioElement | null>(null);
+  const onAudioErrorRef = useRef(onAudioError);
+  onAudioErrorRef.current = onAudioError;
+  const monitorRef = useRef(monitor);
+  monitorRef.current = monitor;
+
+  // The context is created on first use, after the user has picked an audio source
+  const getGraph = (): AudioGraph => {
+    if (!graphRef.current) {
+      const context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = AUDIO_FFT_SIZE;
+      analyser.minDecibels = AUDIO_MIN_DECIBELS;
+      analyser.maxDecibels = AUDIO_MAX_DECIBELS;
+      const output = context.createGain();
+      output.gain.value = monitorRef.current ? 1 : 0;
+      analyser.connect(output);
+      output.connect(context.destination);
+      graphRef.current = { context, analyser, output };
+    }
+    return graphRef.current;
+  };
+
+  // A separately loaded file plays from its own element
+  useEffect(() => {
+    if (mode !== 'file' || !fileUrl) {
+      setFileElement(null);
+      return;
+    }
+
+    const audio = new Audio();
+    audio.loop = true;
+    audio.onerror = () => onAudioErrorRef.current('Could not play the audio file. Try another file.');
+    audio.src = fileUrl;
+    setFileElement(audio);
+
+    return () => {
+      audio.onerror = null;
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    };
+  }, [mode, fileUrl]);
+
+  const element = mode === 'source' ? sourceElement : mode === 'file' ? fileElement : null;
+
+  // Route the active element through the analyser
+  useEffect(() => {
+    if (!element) return;
+
+    let node: MediaElementAudioSourceNode;
+    try {
+      const { context, analyser } = getGraph();
+      node = elementNodesRef.current.get(element) ?? context.createMediaElementSource(element);
+      elementNodesRef.current.set(element, node);
+      node.connect(analyser);
+      context.resume().catch(err => console.warn('Could not resume audio:', err));
+    } catch (e) {
+      console.error('Error routing audio:', e);
+      onAudioErrorRef.current(`Could not analyse the audio: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+
+    // A muted element feeds silence into the graph; the monitor decides what is heard
+    element.muted = false;
+
+    return () => {
+      node.disconnect();
+      element.muted = true;
+    };
+  }, [element]);
+
+  useEffect(() => {
+    if (graphRef.current) graphRef.current.output.gain.value = monitor ? 1 : 0;
+  }, [monitor]);
+
+  // The source video follows play/pause on its own; the file is played here
+  useEffect(() => {
+    if (!fileElement) return;
+
+    if (isPlaying) {
+      fileElement.play().catch(err => {
+        console.error('Error playing audio file:', err);
+      });
+    } else {
+      fileElement.pause();
+    }
+  }, [fileElement, isPlaying]);
+
+  // Sample the analyser every frame while audio is playing
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!element || !isPlaying || !graph) return;
+
+    const spectrum = new Uint8Array(AUDIO_TEXTURE_WIDTH);
+    const waveform = new Uint8Array(AUDIO_TEXTURE_WIDTH);
+    const detector = createBeatDetector();
+    let frame: number;
+
+    const sample = () => {
+      const state = audioStateRef.current;
+      graph.analyser.getByteFrequencyData(spectrum);
+      graph.analyser.getByteTimeDomainData(waveform);
+      state.spectrum.set(spectrum, 0);
+      state.spectrum.set(waveform, AUDIO_TEXTURE_WIDTH);
+      state.spectrumChanged = true;
+      state.bands = analyseAudio(spectrum, waveform, graph.context.sampleRate, performance.now() / 1000, detector);
+      frame = requestAnimationFrame(sample);
+    };
+    frame = requestAnimationFrame(sample);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      silence(audioStateRef.current);
+    };
+  }, [element, isPlaying, audioStateRef]);
+
+  useEffect(() => {
+    return () => {
+      graphRef.current?.context.close();
+      graphRef.current = null;
+    };
+  }, []);
+}
@@ -0,0 +1,95 @@
+import React, { MutableRefObject, useEffect, useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { AudioSourceMode } from '../types';
+import { AUDIO_BANDS } from '../utils/audioAnalysis';
+import { AudioInputState } from './AudioInput';
+
+interface AudioPanelProps {
+  mode: AudioSourceMode;
+  setMode: (mode: AudioSourceMode) => void;
+  fileName: string | null;
+  onOpenFile: (file: File) => void;
+  monitor: boolean;
+  setMonitor: (monitor: boolean) => void;
+  audioStateRef: MutableRefObject<AudioInputState>;
+}
+
+export default function AudioPanel({ mode, setMode, fileName, onOpenFile, monitor, setMonitor, audioStateRef }: AudioPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const barRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // The meters read the shared audio state directly rather than re-rendering every frame
+  useEffect(() => {
+    if (mode === 'off') return;
+
+    let frame: number;
+    const update = () => {
+      const { bands } = audioStateRef.current;
+      AUDIO_BANDS.forEach((band, i) => {
+        const bar = barRefs.current[i];
+        if (bar) bar.style.width = `${Math.round(bands[band.value] * 100)}%`;
+      });
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [mode, audioStateRef]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onOpenFile(file);
+    // Allow reopening the same file
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-xl font-semibold mb-4">Audio</h3>
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as AudioSourceMode)}
+          className="flex-1 p-1 bg-gray-700 rounded text-white"
+          title="What audio-reactive uniforms listen to"
+        >
+          <option value="off">Off</option>
+          <option value="source">Source soundtrack</option>
+          <option value="file" disabled={!fileName}>{fileName ? `File: ${fileName}` : 'Audio file'}</option>
+        </select>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="p-1 text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+          title="Load an audio file"
+        >
+          <Upload size={14} />
+        </button>
+        <input ref={fileInputRef} type="file" accept="audio/*" onChange={handleFile} className="hidden" />
+      </div>
+      <label className="flex items-center gap-2 mb-3 text-xs text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={monitor}
+          onChange={(e) => setMonitor(e.target.checked)}
+          className="w-3 h-3 rounded"
+        />
+        Play out loud
+      </label>
+      {mode !== 'off' && (
+        <div className="space-y-1 mb-3">
+          {AUDIO_BANDS.map((band, i) => (
+            <div key={band.value} className="flex items-center gap-2 text-xs text-gray-300">
+              <span className="w-10">{band.label}</span>
+              <div className="flex-1 h-1.5 bg-gray-700 rounded overflow-hidden">
+                <div ref={el => { barRefs.current[i] = el; }} className="h-full bg-pink-500" style={{ width: 0 }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="text-xs text-gray-400 italic">
+        Every pass can read u_audioLevel, u_audioLow, u_audioMid, u_audioHigh, u_audioBeat and u_audioSpectrum.
+        Float and int controls can follow a band while audio is on
+      </div>
+    </div>
+  );
+}
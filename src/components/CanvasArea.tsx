@@ -1,21 +1,74 @@
-import React from 'react';
-import { Play, Pause } from 'lucide-react';
+import React, { useRef } from 'react';
+import { useDrop } from 'react-dnd';
+import { NativeTypes } from 'react-dnd-html5-backend';
+import { Play, Pause, Download, Upload, X, Undo2, Redo2, Film } from 'lucide-react';
+import SourcePicker from './SourcePicker';
+import { usePointerInput } from './PointerInput';
+import { InputSource } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../utils/project';
 
 interface CanvasAreaProps {
   canvasRef: React.RefObject<HTMLCanvasElement>;
   overlayCanvasRef: React.RefObject<HTMLCanvasElement>;
+  canvasInputHandlers: ReturnType<typeof usePointerInput>;
   isPlaying: boolean;
   setIsPlaying: (playing: boolean) => void;
   addObject: (x: number, y: number) => void;
+  onExportProject: () => void;
+  onImportProject: (file: File) => void;
+  projectError: string[] | null;
+  clearProjectError: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onOpenExport: () => void;
+  source: InputSource;
+  onSelectSource: (source: InputSource) => void;
+  onOpenSourceFile: (file: File) => void;
+  sourceError: string | null;
+  clearSourceError: () => void;
 }
 
 export default function CanvasArea({
   canvasRef,
   overlayCanvasRef,
+  canvasInputHandlers,
   isPlaying,
   setIsPlaying,
   addObject,
+  onExportProject,
+  onImportProject,
+  projectError,
+  clearProjectError,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+  onOpenExport,
+  source,
+  onSelectSource,
+  onOpenSourceFile,
+  sourceError,
+  clearSourceError,
 }: CanvasAreaProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Dropped media becomes the input source; dropped project files are imported
+  const [{ isFileOver }, dropRef] = useDrop(() => ({
+    accept: [NativeTypes.FILE],
+    drop: (item: { files: File[] }) => {
+      const file = item.files[0];
+      if (!file) return;
+      if (file.name.endsWith('.json')) {
+        onImportProject(file);
+      } else {
+        onOpenSourceFile(file);
+      }
+    },
+    collect: (monitor) => ({ isFileOver: monitor.isOver() && monitor.canDrop() }),
+  }), [onImportProject, onOpenSourceFile]);
+
   const togglePlay = () => {
     setIsPlaying(!isPlaying);
   };
@@ -30,6 +83,15 @@ export default function CanvasArea({
     addObject(x, y);
   };
 
+  const handleProjectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportProject(file);
+    }
+    // Allow re-importing the same file
+    e.target.value = '';
+  };
+
   return (
     <div className="flex-1 flex flex-col">
       {/* Controls Header */}
@@ -41,20 +103,101 @@ export default function CanvasArea({
           {isPlaying ? <Pause size={16} /> : <Play size={16} />}
           {isPlaying ? 'Pause' : 'Play'}
         </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            className="p-2 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 transition-colors"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={16} />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            className="p-2 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 transition-colors"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={16} />
+          </button>
+        </div>
+        <SourcePicker source={source} onSelectSource={onSelectSource} onOpenFile={onOpenSourceFile} />
         <span className="text-sm text-gray-300">
           Click canvas to add objects • Use left panel to control shaders
         </span>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={onOpenExport}
+            className="flex items-center gap-2 px-3 py-2 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+            title="Render the output to a video file"
+          >
+            <Film size={16} />
+            Render
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 px-3 py-2 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+            title="Import project"
+          >
+            <Upload size={16} />
+            Import
+          </button>
+          <button
+            onClick={onExportProject}
+            className="flex items-center gap-2 px-3 py-2 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+            title="Export project"
+          >
+            <Download size={16} />
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+            onChange={handleProjectFile}
+            className="hidden"
+          />
+        </div>
       </div>
 
+      {projectError && (
+        <div className="bg-red-900/40 border-b border-red-700 px-4 py-3 text-sm text-red-200 flex items-start gap-3 text-left">
+          <div className="flex-1">
+            <div className="font-semibold">{projectError[0]}</div>
+            {projectError.length > 1 && (
+              <ul className="mt-1 list-disc list-inside text-xs text-red-300 max-h-24 overflow-y-auto">
+                {projectError.slice(1).map((detail, index) => (
+                  <li key={index}>{detail}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <button onClick={clearProjectError} className="text-red-300 hover:text-white" title="Dismiss">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {sourceError && (
+        <div className="bg-yellow-900/40 border-b border-yellow-700 px-4 py-3 text-sm text-yellow-200 flex items-start gap-3 text-left">
+          <div className="flex-1">{sourceError}</div>
+          <button onClick={clearSourceError} className="text-yellow-300 hover:text-white" title="Dismiss">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       {/* Canvas Container */}
-      <div className="flex-1 flex items-center justify-center bg-black p-8">
+      <div ref={dropRef} className="flex-1 flex items-center justify-center bg-black p-8">
         <div className="relative">
           <canvas
             ref={canvasRef}
             width={800}
             height={450}
-            className="border border-gray-600 cursor-crosshair"
+            className="border border-gray-600 cursor-crosshair focus:outline-none focus:border-blue-500"
+            tabIndex={0}
             onClick={handleCanvasClick}
+            {...canvasInputHandlers}
           />
           <canvas
             ref={overlayCanvasRef}
@@ -63,6 +206,11 @@ export default function CanvasArea({
             className="absolute top-0 left-0 pointer-events-none"
           />
           {/* Video is now rendered directly to canvas via VideoCanvasRenderer */}
+          {isFileOver && (
+            <div className="absolute inset-0 flex items-center justify-center bg-blue-900/60 border-2 border-dashed border-blue-400 pointer-events-none text-blue-100">
+              Drop a video or image to use it as the source
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { ExportProgress, VideoExportOptions } from './VideoExporter';
+import { VideoExportFormat, isWebMExportSupported } from '../utils/frameEncoders';
+
+interface ExportDialogProps {
+  defaultDuration: number;
+  aspectRatio: number;
+  progress: ExportProgress | null;
+  exportError: string | null;
+  exportWarning: string | null;
+  onExportVideo: (options: VideoExportOptions) => void;
+  onCancelExport: () => void;
+  isExportingStill: boolean;
+  stillError: string | null;
+  onExportStill: (width: number, height: number) => void;
+  onClose: () => void;
+}
+
+const FRAME_RATES = [24, 25, 30, 60];
+
+const STILL_PRESETS = [
+  { label: '720p', width: 1280 },
+  { label: '1080p', width: 1920 },
+  { label: '1440p', width: 2560 },
+  { label: '4K', width: 3840 },
+];
+
+export default function ExportDialog({
+  defaultDuration,
+  aspectRatio,
+  progress,
+  exportError,
+  exportWarning,
+  onExportVideo,
+  onCancelExport,
+  isExportingStill,
+  stillError,
+  onExportStill,
+  onClose,
+}: ExportDialogProps) {
+  const webmSupported = isWebMExportSupported();
+  const [mode, setMode] = useState<'video' | 'still'>('video');
+  const [stillWidth, setStillWidth] = useState(1920);
+  const [format, setFormat] = useState<VideoExportFormat>(webmSupported ? 'webm' : 'png-zip');
+  const [fps, setFps] = useState(30);
+  const [duration, setDuration] = useState(Math.round(defaultDuration * 100) / 100);
+
+  const isExporting = progress !== null || isExportingStill;
+  const frameCount = Math.max(1, Math.round(duration * fps));
+  // Keep the preview's aspect ratio so the still matches what's on screen
+  const stillHeight = Math.max(1, Math.round(stillWidth / aspectRatio));
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="w-96 bg-gray-800 rounded-lg p-6 text-left shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold">Export</h3>
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="text-gray-400 hover:text-white disabled:opacity-40"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          {(['video', 'still'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              disabled={isExporting}
+              className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+                mode === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {option === 'video' ? 'Video' : 'Still frame'}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'still' ? (
+          <div className="space-y-3 text-sm">
+            <div>
+              <label className="block mb-1 text-gray-300">Resolution</label>
+              <div className="grid grid-cols-4 gap-2">
+                {STILL_PRESETS.map(preset => (
+                  <button
+                    key={preset.label}
+                    onClick={() => setStillWidth(preset.width)}
+                    disabled={isExporting}
+                    className={`py-1 rounded transition-colors ${
+                      stillWidth === preset.width ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                    }`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={16}
+                step={2}
+                value={stillWidth}
+                onChange={(e) => setStillWidth(Math.max(16, parseInt(e.target.value) || 16))}
+                disabled={isExporting}
+                className="w-28 p-2 bg-gray-700 rounded text-white"
+              />
+              <span className="text-gray-300">× {stillHeight} px</span>
+            </div>
+            <div className="text-xs text-gray-400">
+              Re-renders the current frame at this size, with objects scaled to match.
+            </div>
+
+            {stillError && (
+              <div className="p-2 bg-red-900/30 border border-red-700 rounded text-xs text-red-300">
+                {stillError}
+              </div>
+            )}
+
+            <button
+              onClick={() => onExportStill(stillWidth, stillHeight)}
+              disabled={isExporting}
+              className="w-full bg-green-600 hover:bg-green-500 disabled:bg-gray-600 px-4 py-2 rounded-lg transition-colors"
+            >
+              {isExportingStill ? 'Rendering…' : 'Export frame'}
+            </button>
+          </div>
+        ) : (
+        <div className="space-y-3 text-sm">
+          <div>
+            <label className="block mb-1 text-gray-300">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as VideoExportFormat)}
+              disabled={isExporting}
+              className="w-full p-2 bg-gray-700 rounded text-white"
+            >
+              <option value="webm" disabled={!webmSupported}>
+                WebM video{webmSupported ? '' : ' (needs WebCodecs)'}
+              </option>
+              <option value="png-zip">PNG sequence (.zip)</option>
+            </select>
+          </div>
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className="block mb-1 text-gray-300">Frame rate</label>
+              <select
+                value={fps}
+                onChange={(e) => setFps(parseInt(e.target.value))}
+                disabled={isExporting}
+                className="w-full p-2 bg-gray-700 rounded text-white"
+              >
+                {FRAME_RATES.map(rate => (
+                  <option key={rate} value={rate}>{rate} fps</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className="block mb-1 text-gray-300">Duration (s)</label>
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={duration}
+                onChange={(e) => setDuration(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                disabled={isExporting}
+                className="w-full p-2 bg-gray-700 rounded text-white"
+              />
+            </div>
+          </div>
+          <div className="text-xs text-gray-400">
+            {frameCount} frames, rendered offline from the start of the source. Timing is frame-accurate and repeatable.
+          </div>
+
+          {exportWarning && (
+            <div className="p-2 bg-yellow-900/30 border border-yellow-700 rounded text-xs text-yellow-300">
+              {exportWarning}
+            </div>
+          )}
+
+          {exportError && (
+            <div className="p-2 bg-red-900/30 border border-red-700 rounded text-xs text-red-300">
+              {exportError}
+            </div>
+          )}
+
+          {progress ? (
+            <div>
+              <div className="h-2 bg-gray-700 rounded overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${(progress.current / progress.total) * 100}%` }}
+                />
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-gray-300">Frame {progress.current} / {progress.total}</span>
+                <button
+                  onClick={onCancelExport}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => onExportVideo({ format, fps, duration })}
+              className="w-full bg-green-600 hover:bg-green-500 px-4 py-2 rounded-lg transition-colors"
+            >
+              Export {frameCount} frames
+            </button>
+          )}
+        </div>
+        )}
+      </div>
+    </div>
+  );
+}
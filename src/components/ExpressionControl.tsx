@@ -0,0 +1,49 @@
+import { FunctionSquare, X } from 'lucide-react';
+import { EXPRESSION_FUNCTIONS, validateExpression } from '../utils/expressions';
+
+interface ExpressionControlProps {
+  expression: string | undefined;
+  onChange: (expression: string | undefined) => void;
+}
+
+// Sits under a float or int uniform and replaces its value with an expression each frame
+export default function ExpressionControl({ expression, onChange }: ExpressionControlProps) {
+  if (expression === undefined) {
+    return (
+      <button
+        onClick={() => onChange('value')}
+        className="-mt-2 mb-4 flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300"
+        title="Drive this uniform with an expression"
+      >
+        <FunctionSquare size={12} />
+        Expression
+      </button>
+    );
+  }
+
+  const error = validateExpression(expression);
+
+  return (
+    <div className="-mt-2 mb-4 text-xs">
+      <div className="flex items-center gap-2">
+        <FunctionSquare size={12} className="text-pink-400 shrink-0" />
+        <input
+          type="text"
+          value={expression}
+          onChange={(e) => onChange(e.target.value)}
+          spellCheck={false}
+          className={`flex-1 min-w-0 p-1 bg-gray-800 rounded font-mono text-white border ${error ? 'border-red-500' : 'border-transparent'}`}
+          title={`Use t, value, pi, lfo("name"), obj("name").x and ${EXPRESSION_FUNCTIONS.filter(fn => fn !== 'lfo' && fn !== 'obj').join(', ')}`}
+        />
+        <button
+          onClick={() => onChange(undefined)}
+          className="p-0.5 text-gray-400 hover:text-white rounded"
+          title="Remove the expression"
+        >
+          <X size={12} />
+        </button>
+      </div>
+      {error && <div className="mt-1 text-red-300">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from 'react';
+
+interface HistoryManagerOptions {
+  limit?: number;
+  mergeWindowMs?: number;
+}
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastMergeKey: string | null;
+  lastEditTime: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_MERGE_WINDOW_MS = 1000;
+
+export function useHistoryManager<T>(initialState: T, {
+  limit = DEFAULT_LIMIT,
+  mergeWindowMs = DEFAULT_MERGE_WINDOW_MS,
+}: HistoryManagerOptions = {}) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: initialState,
+    future: [],
+    lastMergeKey: null,
+    lastEditTime: 0,
+  });
+
+  // Apply an edit. Consecutive edits sharing a merge key (e.g. one slider drag)
+  // collapse into a single undo entry.
+  const update = useCallback((updater: (prev: T) => T, mergeKey?: string) => {
+    const now = Date.now();
+
+    setHistory(prev => {
+      const next = updater(prev.present);
+      if (next === prev.present) return prev;
+
+      const shouldMerge = mergeKey !== undefined
+        && mergeKey === prev.lastMergeKey
+        && now - prev.lastEditTime < mergeWindowMs;
+
+      return {
+        past: shouldMerge ? prev.past : [...prev.past, prev.present].slice(-limit),
+        present: next,
+        future: [],
+        lastMergeKey: mergeKey ?? null,
+        lastEditTime: now,
+      };
+    });
+  }, [limit, mergeWindowMs]);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        lastMergeKey: null,
+        lastEditTime: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present].slice(-limit),
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        lastMergeKey: null,
+        lastEditTime: 0,
+      };
+    });
+  }, [limit]);
+
+  // Bind Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const target = e.target as HTMLElement | null;
+      const isTextField = target instanceof HTMLTextAreaElement
+        || (target instanceof HTMLInputElement && ['text', 'number', 'search', 'url'].includes(target.type))
+        || target?.isContentEditable;
+      if (isTextField) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [undo, redo]);
+
+  return {
+    state: history.present,
+    update,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,148 @@
+import { useMemo } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { AnimationTarget, CanvasObject, Lfo, LfoShape, Shader } from '../types';
+import { getTargetLabel, isSameTarget } from '../utils/animation';
+import { LFO_OBJECT_PROPERTIES, LFO_SHAPES, LFO_UNIFORM_TYPES } from '../utils/modulation';
+
+interface LfoPanelProps {
+  lfos: Lfo[];
+  shaders: Shader[];
+  objects: CanvasObject[];
+  addLfo: () => void;
+  updateLfo: (id: string, updates: Partial<Lfo>) => void;
+  deleteLfo: (id: string) => void;
+}
+
+// Serialize targets for use as <option> values
+const encodeTarget = (target: AnimationTarget) => JSON.stringify(target);
+
+export default function LfoPanel({ lfos, shaders, objects, addLfo, updateLfo, deleteLfo }: LfoPanelProps) {
+  const targets = useMemo(() => {
+    const all: AnimationTarget[] = [];
+    shaders.forEach(shader => {
+      Object.entries(shader.uniformSchema).forEach(([uniform, descriptor]) => {
+        if (LFO_UNIFORM_TYPES.includes(descriptor.type)) {
+          all.push({ kind: 'uniform', shaderId: shader.id, uniform });
+        }
+      });
+    });
+    objects.forEach(obj => {
+      LFO_OBJECT_PROPERTIES.forEach(property => {
+        all.push({ kind: 'object', objectId: obj.id, property });
+      });
+    });
+    return all;
+  }, [shaders, objects]);
+
+  const addTarget = (lfo: Lfo, encoded: string) => {
+    if (!encoded) return;
+    updateLfo(lfo.id, { targets: [...lfo.targets, JSON.parse(encoded) as AnimationTarget] });
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-semibold">LFOs</h3>
+        <button
+          onClick={addLfo}
+          className="p-1 text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+          title="Add an LFO"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+      <div className="space-y-3">
+        {lfos.map(lfo => (
+          <div key={lfo.id} className="p-3 bg-gray-700 rounded-lg text-sm">
+            <div className="flex items-center gap-2 mb-2">
+              <input
+                type="text"
+                value={lfo.name}
+                onChange={(e) => updateLfo(lfo.id, { name: e.target.value })}
+                className="flex-1 min-w-0 p-1 bg-gray-600 rounded text-white font-mono"
+                title={`Read it in expressions as lfo("${lfo.name}")`}
+              />
+              <select
+                value={lfo.shape}
+                onChange={(e) => updateLfo(lfo.id, { shape: e.target.value as LfoShape })}
+                className="p-1 bg-gray-600 rounded text-white"
+              >
+                {LFO_SHAPES.map(shape => (
+                  <option key={shape.value} value={shape.value}>{shape.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => deleteLfo(lfo.id)}
+                className="p-1 text-red-400 hover:text-red-300 hover:bg-gray-600 rounded transition-colors"
+                title="Delete LFO"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <div className="flex items-center gap-2 mb-2 text-xs text-gray-300">
+              <label className="flex items-center gap-1">
+                Rate
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={lfo.rate}
+                  onChange={(e) => {
+                    const rate = parseFloat(e.target.value);
+                    if (rate >= 0) updateLfo(lfo.id, { rate });
+                  }}
+                  className="w-16 p-1 bg-gray-600 rounded text-white"
+                />
+                Hz
+              </label>
+              <label className="flex items-center gap-1">
+                Depth
+                <input
+                  type="number"
+                  step={0.05}
+                  value={lfo.depth}
+                  onChange={(e) => {
+                    const depth = parseFloat(e.target.value);
+                    if (Number.isFinite(depth)) updateLfo(lfo.id, { depth });
+                  }}
+                  className="w-16 p-1 bg-gray-600 rounded text-white"
+                />
+              </label>
+            </div>
+            {lfo.targets.map((target, i) => (
+              <div key={encodeTarget(target)} className="flex items-center gap-1 text-xs text-gray-300">
+                <span className="flex-1 truncate" title={getTargetLabel(target, shaders, objects)}>
+                  {getTargetLabel(target, shaders, objects)}
+                </span>
+                <button
+                  onClick={() => updateLfo(lfo.id, { targets: lfo.targets.filter((_, j) => j !== i) })}
+                  className="p-0.5 text-gray-400 hover:text-white rounded"
+                  title="Stop modulating this"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <select
+              value=""
+              onChange={(e) => addTarget(lfo, e.target.value)}
+              className="w-full mt-1 p-1 bg-gray-600 rounded text-white text-xs"
+            >
+              <option value="">+ Modulate…</option>
+              {targets
+                .filter(target => !lfo.targets.some(existing => isSameTarget(existing, target)))
+                .map(target => (
+                  <option key={encodeTarget(target)} value={encodeTarget(target)}>
+                    {getTargetLabel(target, shaders, objects)}
+                  </option>
+                ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 text-xs text-gray-400 italic">
+        LFOs swing their targets by up to ±depth, in the target's own units, and can be read in expressions with lfo("name")
+      </div>
+    </div>
+  );
+}
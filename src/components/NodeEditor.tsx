@@ -0,0 +1,293 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { GraphNode, Pipeline, Shader, ShaderSnippet } from '../types';
+import { getExpandedSources } from '../utils/glslPreprocessor';
+import {
+  OUTPUT_NODE_ID,
+  SOURCE_NODE_ID,
+  connectNodes,
+  createGraphFromStack,
+  disconnectInput,
+  getTextureInputCount,
+  planGraph,
+  removeNodes,
+} from '../utils/pipelineGraph';
+
+interface NodeEditorProps {
+  pipeline: Pipeline;
+  shaders: Shader[];
+  snippets: ShaderSnippet[];
+  updatePipeline: (updater: (prev: Pipeline) => Pipeline, mergeKey?: string) => void;
+  onClose: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const NODE_WIDTH = 170;
+const HEADER_HEIGHT = 30;
+const PORT_ROW = 22;
+const SOURCE_POSITION: Point = { x: 20, y: 60 };
+
+// Port centres in graph coordinates
+const outputPortOf = (position: Point): Point => ({ x: position.x + NODE_WIDTH, y: position.y + HEADER_HEIGHT / 2 });
+const inputPortOf = (position: Point, index: number): Point => ({
+  x: position.x,
+  y: position.y + HEADER_HEIGHT + 4 + index * PORT_ROW + PORT_ROW / 2,
+});
+
+const edgePath = (from: Point, to: Point) => {
+  const bend = Math.max(40, Math.abs(to.x - from.x) / 2);
+  return `M ${from.x} ${from.y} C ${from.x + bend} ${from.y}, ${to.x - bend} ${to.y}, ${to.x} ${to.y}`;
+};
+
+export default function NodeEditor({ pipeline, shaders, snippets, updatePipeline, onClose }: NodeEditorProps) {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ nodeId: string; offset: Point } | null>(null);
+  const [pending, setPending] = useState<{ fromId: string; pointer: Point } | null>(null);
+
+  const shadersById = new Map(shaders.map(shader => [shader.id, shader]));
+  const nodesById = new Map(pipeline.nodes.map(node => [node.id, node]));
+  const plan = planGraph(pipeline);
+
+  const outputPosition: Point = {
+    x: Math.max(760, ...pipeline.nodes.map(node => node.x + NODE_WIDTH + 80)),
+    y: SOURCE_POSITION.y,
+  };
+  const areaWidth = outputPosition.x + NODE_WIDTH + 40;
+  const areaHeight = Math.max(500, ...pipeline.nodes.map(node => node.y + 200));
+
+  // Inputs can be declared in snippets or sub-passes, so count them in every expanded source
+  const inputCounts = useMemo(
+    () => new Map(shaders.map(shader => [shader.id, getTextureInputCount(getExpandedSources(shader, snippets))])),
+    [shaders, snippets]
+  );
+
+  const getInputCount = (node: GraphNode) => inputCounts.get(node.shaderId) ?? 1;
+
+  const getOutputPort = (id: string): Point | null => {
+    if (id === SOURCE_NODE_ID) return outputPortOf(SOURCE_POSITION);
+    const node = nodesById.get(id);
+    return node ? outputPortOf(node) : null;
+  };
+
+  const toGraphPoint = (e: { clientX: number; clientY: number }): Point => {
+    const area = areaRef.current;
+    if (!area) return { x: 0, y: 0 };
+    const rect = area.getBoundingClientRect();
+    return { x: e.clientX - rect.left + area.scrollLeft, y: e.clientY - rect.top + area.scrollTop };
+  };
+
+  // Node dragging and connection previews follow the pointer anywhere on the page
+  useEffect(() => {
+    if (!drag && !pending) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const point = toGraphPoint(e);
+      if (drag) {
+        const x = Math.max(0, Math.round(point.x - drag.offset.x));
+        const y = Math.max(0, Math.round(point.y - drag.offset.y));
+        updatePipeline(prev => ({
+          ...prev,
+          nodes: prev.nodes.map(node => (node.id === drag.nodeId ? { ...node, x, y } : node)),
+        }), `pipeline:${drag.nodeId}:move`);
+      } else if (pending) {
+        setPending({ ...pending, pointer: point });
+      }
+    };
+    const handleUp = () => {
+      setDrag(null);
+      setPending(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, pending, updatePipeline]);
+
+  const startDrag = (e: React.PointerEvent, node: GraphNode) => {
+    e.preventDefault();
+    const point = toGraphPoint(e);
+    setDrag({ nodeId: node.id, offset: { x: point.x - node.x, y: point.y - node.y } });
+  };
+
+  const startConnection = (e: React.PointerEvent, fromId: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setPending({ fromId, pointer: toGraphPoint(e) });
+  };
+
+  const finishConnection = (toId: string, inputIndex: number) => {
+    if (!pending) return;
+    updatePipeline(prev => connectNodes(prev, pending.fromId, toId, inputIndex));
+  };
+
+  const addNode = (shaderId: string) => {
+    const shader = shadersById.get(shaderId);
+    if (!shader) return;
+
+    const node: GraphNode = {
+      id: `node-${Date.now()}`,
+      shaderId,
+      inputs: Array(inputCounts.get(shaderId) ?? 1).fill(null),
+      x: 240 + (pipeline.nodes.length % 4) * 40,
+      y: 240 + (pipeline.nodes.length % 4) * 30,
+    };
+    updatePipeline(prev => ({ ...prev, nodes: [...prev.nodes, node] }));
+  };
+
+  const renderInputPort = (nodeId: string, index: number, connected: boolean, label: string) => (
+    <div key={index} className="flex items-center gap-2 text-xs text-gray-300" style={{ height: PORT_ROW }}>
+      <div
+        onPointerUp={() => finishConnection(nodeId, index)}
+        onClick={() => connected && updatePipeline(prev => disconnectInput(prev, nodeId, index))}
+        className={`-ml-[7px] w-3 h-3 rounded-full border-2 border-blue-400 cursor-pointer ${
+          connected ? 'bg-blue-400' : 'bg-gray-800'
+        } ${pending ? 'ring-2 ring-blue-300/50' : ''}`}
+        title={connected ? 'Click to disconnect' : 'Drop a connection here'}
+      />
+      <span className="font-mono">{label}</span>
+      {!connected && <span className="text-gray-500">(source)</span>}
+    </div>
+  );
+
+  const renderOutputPort = (id: string) => (
+    <div
+      onPointerDown={(e) => startConnection(e, id)}
+      className="absolute w-3 h-3 rounded-full bg-green-400 border-2 border-green-300 cursor-crosshair"
+      style={{ right: -7, top: HEADER_HEIGHT / 2 - 6 }}
+      title="Drag to an input to connect"
+    />
+  );
+
+  const edges: { key: string; from: Point; to: Point }[] = [];
+  pipeline.nodes.forEach(node => {
+    const count = getInputCount(node);
+    node.inputs.slice(0, count).forEach((input, index) => {
+      const from = input ? getOutputPort(input) : null;
+      if (from) edges.push({ key: `${node.id}:${index}`, from, to: inputPortOf(node, index) });
+    });
+  });
+  const outputFrom = pipeline.output ? getOutputPort(pipeline.output) : null;
+  if (outputFrom) {
+    edges.push({ key: 'output', from: outputFrom, to: inputPortOf(outputPosition, 0) });
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50">
+      <div className="absolute inset-8 bg-gray-800 rounded-lg shadow-xl flex flex-col text-left">
+        <div className="flex items-center gap-3 p-4 border-b border-gray-700">
+          <h3 className="text-xl font-semibold">Node Graph</h3>
+          <select
+            value=""
+            onChange={(e) => addNode(e.target.value)}
+            className="p-2 bg-gray-700 rounded text-sm text-white"
+          >
+            <option value="" disabled>Add node…</option>
+            {shaders.map(shader => (
+              <option key={shader.id} value={shader.id}>{shader.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => updatePipeline(prev => createGraphFromStack(prev, shaders))}
+            className="flex items-center gap-2 px-3 py-2 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+            title="Replace the graph with a chain of the enabled shaders"
+          >
+            <RotateCcw size={14} />
+            Rebuild from list
+          </button>
+          <span className="text-xs text-gray-400">
+            Drag from a green output to a blue input to connect • Click an input to disconnect
+          </span>
+          {plan.error && <span className="text-sm text-red-400">{plan.error}</span>}
+          <button onClick={onClose} className="ml-auto text-gray-400 hover:text-white" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div ref={areaRef} className="relative flex-1 overflow-auto bg-gray-900 select-none">
+          <div className="relative" style={{ width: areaWidth, height: areaHeight }}>
+            <svg className="absolute inset-0 pointer-events-none" width={areaWidth} height={areaHeight}>
+              {edges.map(edge => (
+                <path key={edge.key} d={edgePath(edge.from, edge.to)} stroke="#60a5fa" strokeWidth={2} fill="none" />
+              ))}
+              {pending && (() => {
+                const from = getOutputPort(pending.fromId);
+                return from && (
+                  <path d={edgePath(from, pending.pointer)} stroke="#93c5fd" strokeWidth={2} strokeDasharray="4 4" fill="none" />
+                );
+              })()}
+            </svg>
+
+            {/* Source */}
+            <div
+              className="absolute bg-gray-700 border border-green-700 rounded-lg"
+              style={{ left: SOURCE_POSITION.x, top: SOURCE_POSITION.y, width: NODE_WIDTH }}
+            >
+              <div className="px-3 flex items-center font-medium" style={{ height: HEADER_HEIGHT }}>Source</div>
+              {renderOutputPort(SOURCE_NODE_ID)}
+            </div>
+
+            {/* Output */}
+            <div
+              className="absolute bg-gray-700 border border-blue-700 rounded-lg pb-2"
+              style={{ left: outputPosition.x, top: outputPosition.y, width: NODE_WIDTH }}
+            >
+              <div className="px-3 flex items-center font-medium" style={{ height: HEADER_HEIGHT }}>Output</div>
+              <div className="mt-1">{renderInputPort(OUTPUT_NODE_ID, 0, pipeline.output !== null, 'result')}</div>
+            </div>
+
+            {pipeline.nodes.map(node => {
+              const shader = shadersById.get(node.shaderId);
+              const count = getInputCount(node);
+              return (
+                <div
+                  key={node.id}
+                  className={`absolute bg-gray-700 border rounded-lg pb-2 ${
+                    plan.steps.includes(node) ? 'border-gray-500' : 'border-gray-600 opacity-60'
+                  }`}
+                  style={{ left: node.x, top: node.y, width: NODE_WIDTH }}
+                >
+                  <div
+                    onPointerDown={(e) => startDrag(e, node)}
+                    className="px-3 flex items-center gap-2 cursor-move bg-gray-600 rounded-t-lg"
+                    style={{ height: HEADER_HEIGHT }}
+                  >
+                    <span className="flex-1 truncate font-medium text-sm">{shader ? shader.name : 'Missing shader'}</span>
+                    {shader && !shader.enabled && <span className="text-xs text-yellow-400">off</span>}
+                    <button
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onClick={() => updatePipeline(prev => removeNodes(prev, n => n.id === node.id))}
+                      className="text-red-400 hover:text-red-300"
+                      title="Delete node"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                  {renderOutputPort(node.id)}
+                  <div className="mt-1">
+                    {Array.from({ length: count }, (_, index) =>
+                      renderInputPort(node.id, index, Boolean(node.inputs[index]), `u_texture${index}`)
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {pipeline.nodes.length === 0 && (
+              <div className="absolute inset-0 flex items-center justify-center text-gray-500 pointer-events-none">
+                <Plus size={16} className="mr-2" />
+                Add a node to start building the graph
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
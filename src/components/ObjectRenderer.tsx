@@ -8,13 +8,82 @@ interface ObjectRendererProps {
   objectsVisible: boolean;
 }
 
+// Paint objects onto any 2D context, e.g. a pipeline layer. As a mask every
+// shape is solid white, so coverage ends up in both color and alpha.
+export function paintObjects(ctx: CanvasRenderingContext2D, objects: CanvasObject[], asMask = false) {
+  // Draw each object (check individual visibility)
+  objects.forEach(obj => {
+    // Skip if this individual object is hidden
+    if (!obj.visible) return;
+    
+    ctx.save();
+    
+    // Apply rotation if any
+    if (obj.rotation !== 0) {
+      ctx.translate(obj.x + obj.width / 2, obj.y + obj.height / 2);
+      ctx.rotate((obj.rotation * Math.PI) / 180);
+      ctx.translate(-obj.width / 2, -obj.height / 2);
+    } else {
+      ctx.translate(obj.x, obj.y);
+    }
+
+    // Set color and style
+    ctx.fillStyle = asMask ? '#ffffff' : obj.color;
+    ctx.strokeStyle = ctx.fillStyle;
+    ctx.lineWidth = 2;
+    const fillAlpha = asMask ? 1 : 0.7;
+
+    switch (obj.type) {
+      case 'text':
+        ctx.font = `${Math.max(16, obj.height / 2)}px Arial`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(obj.text || 'Text', obj.width / 2, obj.height / 2);
+        break;
+      
+      case 'rect':
+        ctx.globalAlpha = fillAlpha;
+        ctx.fillRect(0, 0, obj.width, obj.height);
+        break;
+      
+      case 'circle':
+        const radius = Math.min(obj.width, obj.height) / 2;
+        const centerX = obj.width / 2;
+        const centerY = obj.height / 2;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+        ctx.globalAlpha = fillAlpha;
+        ctx.fill();
+        break;
+    }
+    
+    ctx.restore();
+  });
+}
+
+// Outline an object's bounding box, following its rotation
+function paintSelection(ctx: CanvasRenderingContext2D, obj: CanvasObject) {
+  ctx.save();
+  ctx.translate(obj.x + obj.width / 2, obj.y + obj.height / 2);
+  ctx.rotate((obj.rotation * Math.PI) / 180);
+  ctx.strokeStyle = '#3b82f6';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 4]);
+  ctx.shadowColor = '#3b82f6';
+  ctx.shadowBlur = 6;
+  ctx.strokeRect(-obj.width / 2 - 3, -obj.height / 2 - 3, obj.width + 6, obj.height + 6);
+  ctx.restore();
+}
+
 export function useObjectRenderer({
   overlayCanvasRef,
   objects,
   selectedObject,
   objectsVisible,
 }: ObjectRendererProps) {
-  const drawObjects = useCallback(() => {
+  // Objects themselves are rendered in the shader pipeline; the overlay only
+  // carries the selection outline. Callers pass the animated objects for the frame.
+  const drawObjects = useCallback((frameObjects: CanvasObject[] = objects) => {
     const overlayCanvas = overlayCanvasRef.current;
     if (!overlayCanvas) return;
 
@@ -24,76 +93,16 @@ export function useObjectRenderer({
     // Clear the overlay
     ctx.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height);
 
-    // Only draw objects if globally visible
+    // Only outline objects if globally visible
     if (!objectsVisible) return;
 
-    // Draw each object (check individual visibility)
-    objects.forEach(obj => {
-      // Skip if this individual object is hidden
-      if (!obj.visible) return;
-      
-      ctx.save();
-      
-      // Apply rotation if any
-      if (obj.rotation !== 0) {
-        ctx.translate(obj.x + obj.width / 2, obj.y + obj.height / 2);
-        ctx.rotate((obj.rotation * Math.PI) / 180);
-        ctx.translate(-obj.width / 2, -obj.height / 2);
-      } else {
-        ctx.translate(obj.x, obj.y);
-      }
-
-      // Set color and style
-      ctx.fillStyle = obj.color;
-      ctx.strokeStyle = obj.color;
-      ctx.lineWidth = 2;
-
-      // Add selection highlight
-      if (selectedObject === obj.id) {
-        ctx.shadowColor = '#3b82f6';
-        ctx.shadowBlur = 10;
-        ctx.strokeStyle = '#3b82f6';
-        ctx.lineWidth = 3;
-      }
-
-      switch (obj.type) {
-        case 'text':
-          ctx.font = `${Math.max(16, obj.height / 2)}px Arial`;
-          ctx.textAlign = 'center';
-          ctx.textBaseline = 'middle';
-          if (selectedObject === obj.id) {
-            ctx.strokeText(obj.text || 'Text', obj.width / 2, obj.height / 2);
-          }
-          ctx.fillText(obj.text || 'Text', obj.width / 2, obj.height / 2);
-          break;
-        
-        case 'rect':
-          if (selectedObject === obj.id) {
-            ctx.strokeRect(0, 0, obj.width, obj.height);
-          }
-          ctx.globalAlpha = 0.7;
-          ctx.fillRect(0, 0, obj.width, obj.height);
-          break;
-        
-        case 'circle':
-          const radius = Math.min(obj.width, obj.height) / 2;
-          const centerX = obj.width / 2;
-          const centerY = obj.height / 2;
-          ctx.beginPath();
-          ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-          if (selectedObject === obj.id) {
-            ctx.stroke();
-          }
-          ctx.globalAlpha = 0.7;
-          ctx.fill();
-          break;
-      }
-      
-      ctx.restore();
-    });
+    const selected = frameObjects.find(obj => obj.id === selectedObject);
+    if (selected && selected.visible) {
+      paintSelection(ctx, selected);
+    }
   }, [objects, selectedObject, objectsVisible]);
 
   return {
     drawObjects,
   };
-} 
\ No newline at end of file
+}
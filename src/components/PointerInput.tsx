@@ -0,0 +1,115 @@
+import React, { useCallback, useRef } from 'react';
+
+// Rows of the key-state texture: held right now, and flipped on every press
+export const KEYBOARD_TEXTURE_WIDTH = 256;
+export const KEYBOARD_TEXTURE_ROWS = 2;
+
+// Pointer positions are normalized with the same bottom-left origin as object uniforms
+export interface UserInputState {
+  mouse: [number, number];
+  mouseDown: boolean;
+  clickPos: [number, number];
+  dragDelta: [number, number];
+  keys: Uint8Array; // KEYBOARD_TEXTURE_WIDTH * KEYBOARD_TEXTURE_ROWS luminance texels
+  keysChanged: boolean;
+}
+
+export function createUserInputState(): UserInputState {
+  return {
+    mouse: [0.5, 0.5],
+    mouseDown: false,
+    clickPos: [0.5, 0.5],
+    dragDelta: [0, 0],
+    keys: new Uint8Array(KEYBOARD_TEXTURE_WIDTH * KEYBOARD_TEXTURE_ROWS),
+    keysChanged: true,
+  };
+}
+
+// Keys that would otherwise scroll the page while the canvas has focus
+const SCROLL_KEYS = new Set([' ', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight']);
+
+interface PointerInputProps {
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  inputStateRef: React.MutableRefObject<UserInputState>;
+  // Called after every change, e.g. to redraw while paused
+  onInput: () => void;
+}
+
+export function usePointerInput({ canvasRef, inputStateRef, onInput }: PointerInputProps) {
+  const onInputRef = useRef(onInput);
+  onInputRef.current = onInput;
+
+  const toCanvasPoint = useCallback((e: React.PointerEvent): [number, number] => {
+    const canvas = canvasRef.current;
+    if (!canvas) return [0.5, 0.5];
+    const rect = canvas.getBoundingClientRect();
+    return [(e.clientX - rect.left) / rect.width, 1.0 - (e.clientY - rect.top) / rect.height];
+  }, [canvasRef]);
+
+  const onPointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const state = inputStateRef.current;
+    // Keep tracking drags that leave the canvas, and take focus for key input
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    state.mouse = toCanvasPoint(e);
+    state.clickPos = state.mouse;
+    state.dragDelta = [0, 0];
+    state.mouseDown = true;
+    onInputRef.current();
+  }, [inputStateRef, toCanvasPoint]);
+
+  const onPointerMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const state = inputStateRef.current;
+    state.mouse = toCanvasPoint(e);
+    if (state.mouseDown) {
+      state.dragDelta = [state.mouse[0] - state.clickPos[0], state.mouse[1] - state.clickPos[1]];
+    }
+    onInputRef.current();
+  }, [inputStateRef, toCanvasPoint]);
+
+  const onPointerUp = useCallback(() => {
+    const state = inputStateRef.current;
+    state.mouseDown = false;
+    state.dragDelta = [0, 0];
+    onInputRef.current();
+  }, [inputStateRef]);
+
+  const onKeyDown = useCallback((e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    if (SCROLL_KEYS.has(e.key)) e.preventDefault();
+
+    const state = inputStateRef.current;
+    const code = e.keyCode & 0xff;
+    state.keys[code] = 255;
+    if (!e.repeat) {
+      state.keys[KEYBOARD_TEXTURE_WIDTH + code] ^= 255;
+    }
+    state.keysChanged = true;
+    onInputRef.current();
+  }, [inputStateRef]);
+
+  const onKeyUp = useCallback((e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const state = inputStateRef.current;
+    state.keys[e.keyCode & 0xff] = 0;
+    state.keysChanged = true;
+    onInputRef.current();
+  }, [inputStateRef]);
+
+  // Key-up events go elsewhere once focus leaves, so let go of everything
+  const onBlur = useCallback(() => {
+    const state = inputStateRef.current;
+    state.keys.fill(0, 0, KEYBOARD_TEXTURE_WIDTH);
+    state.keysChanged = true;
+    onInputRef.current();
+  }, [inputStateRef]);
+
+  return {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel: onPointerUp,
+    onKeyDown,
+    onKeyUp,
+    onBlur,
+  };
+}
@@ -0,0 +1,60 @@
+import { useRef } from 'react';
+import { ShaderError } from '../types';
+import { formatShaderError } from '../utils/shaderCompiler';
+
+interface ShaderCodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: ShaderError[];
+  placeholder?: string;
+}
+
+export default function ShaderCodeEditor({ value, onChange, errors, placeholder }: ShaderCodeEditorProps) {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const lineCount = Math.max(1, value.split('\n').length);
+  const errorLines = new Set(errors.map(error => error.line).filter((line): line is number => line !== null));
+
+  // Keep the line number gutter aligned with the textarea
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+    }
+  };
+
+  return (
+    <div>
+      <div className={`flex h-48 bg-gray-700 rounded-lg overflow-hidden ${errors.length > 0 ? 'ring-1 ring-red-500' : ''}`}>
+        <div
+          ref={gutterRef}
+          className="py-4 pl-2 pr-1 overflow-hidden text-right font-mono text-sm text-gray-500 select-none bg-gray-800/50"
+        >
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div
+              key={i}
+              className={errorLines.has(i + 1) ? 'text-red-400 font-bold' : ''}
+              title={errors.filter(error => error.line === i + 1).map(error => error.message).join('\n') || undefined}
+            >
+              {i + 1}
+            </div>
+          ))}
+        </div>
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={handleScroll}
+          placeholder={placeholder}
+          spellCheck={false}
+          wrap="off"
+          className="flex-1 py-4 px-3 bg-transparent font-mono text-sm resize-none text-white placeholder-gray-400 outline-none"
+        />
+      </div>
+      {errors.length > 0 && (
+        <div className="mt-2 p-2 bg-red-900/30 border border-red-700 rounded text-xs text-red-300 font-mono space-y-1 max-h-32 overflow-y-auto text-left">
+          {errors.map((error, index) => (
+            <div key={index}>{formatShaderError(error)}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
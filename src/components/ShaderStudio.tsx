@@ -7,31 +7,136 @@ import { useWebGLRenderer } from './WebGLRenderer';
 import { useObjectRenderer } from './ObjectRenderer';
 import { useVideoCanvasRenderer } from './VideoCanvasRenderer';
 import { defaultShaders } from '../shaders/defaultShaders';
-import { CanvasObject, Shader } from '../types';
+import TimelinePanel from './TimelinePanel';
+import ExportDialog from './ExportDialog';
+import NodeEditor from './NodeEditor';
+import { useHistoryManager } from './HistoryManager';
+import { useTimelineClock } from './TimelineClock';
+import { useStudioClock } from './StudioClock';
+import { useVideoExporter } from './VideoExporter';
+import { useStillExporter } from './StillExporter';
+import { createUserInputState, usePointerInput } from './PointerInput';
+import { createAudioInputState, useAudioInput } from './AudioInput';
+import { AudioSourceMode, CanvasObject, ClockMode, FeedbackMode, GraphNode, InputSource, Lfo, Pipeline, PipelineMode, Shader, ShaderSnippet, StudioState, Timeline } from '../types';
+import { createEmptyTimeline } from '../utils/animation';
+import { syncShaderUniforms } from '../utils/glslUniforms';
+import { createBindingName } from '../utils/objectBindings';
+import { createLfo } from '../utils/modulation';
+import { PROJECT_FILE_EXTENSION, ProjectLoadError, parseProject, serializeProject } from '../utils/project';
+import { downloadBlob } from '../utils/download';
+import { SOURCE_NODE_ID, createEmptyPipeline, createGraphFromStack, removeNodes } from '../utils/pipelineGraph';
+import { ISF_FILE_EXTENSION, IsfParseError, exportIsf, importIsf } from '../utils/isf';
+import { preprocessShader } from '../utils/glslPreprocessor';
+import { CubeParseError, parseCube } from '../utils/cubeLut';
+import { DEFAULT_SOURCE, createFileSource, getSourceLabel, needsReselect } from '../utils/inputSources';
 
 export default function ShaderStudio() {
   const [currentTool, setCurrentTool] = useState<'select' | 'text' | 'rect' | 'circle'>('select');
-  const [objects, setObjects] = useState<CanvasObject[]>([]);
   const [selectedObject, setSelectedObject] = useState<string | null>(null);
-  const [shaders, setShaders] = useState<Shader[]>(defaultShaders);
   const [isPlaying, setIsPlaying] = useState(true); // Start playing automatically
+  // Video export draws every frame itself, so the live renderer must stand down
+  const isExportingRef = useRef(false);
   const [isVideoLoaded, setIsVideoLoaded] = useState(false);
-  const [objectsVisible, setObjectsVisible] = useState(true);
+  const [source, setSource] = useState<InputSource>(DEFAULT_SOURCE);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [projectError, setProjectError] = useState<string[] | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showNodeEditor, setShowNodeEditor] = useState(false);
+  const [audioMode, setAudioMode] = useState<AudioSourceMode>('off');
+  const [audioFile, setAudioFile] = useState<{ name: string; url: string } | null>(null);
+  const [audioMonitor, setAudioMonitor] = useState(true);
 
   const videoCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const inputStateRef = useRef(createUserInputState());
+  const audioStateRef = useRef(createAudioInputState());
   const animationFrameRef = useRef<number | undefined>();
 
+  // Shaders, objects and visibility go through the undo/redo history
+  const {
+    state: studio,
+    update: updateStudio,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useHistoryManager<StudioState>({
+    shaders: defaultShaders,
+    objects: [],
+    objectsVisible: true,
+    timeline: createEmptyTimeline(),
+    pipeline: createEmptyPipeline(),
+    snippets: [],
+    luts: [],
+    lfos: [],
+    clockMode: 'media',
+  });
+  const { shaders, objects, objectsVisible, timeline, pipeline, snippets, luts, lfos, clockMode } = studio;
+
+  const setShaders = (updater: (prev: Shader[]) => Shader[], mergeKey?: string) => {
+    updateStudio(prev => ({ ...prev, shaders: updater(prev.shaders) }), mergeKey);
+  };
+
+  const setObjects = (updater: (prev: CanvasObject[]) => CanvasObject[], mergeKey?: string) => {
+    updateStudio(prev => ({ ...prev, objects: updater(prev.objects) }), mergeKey);
+  };
+
+  const setObjectsVisible = (visible: boolean) => {
+    updateStudio(prev => ({ ...prev, objectsVisible: visible }));
+  };
+
+  const updateTimeline = (updater: (prev: Timeline) => Timeline, mergeKey?: string) => {
+    updateStudio(prev => ({ ...prev, timeline: updater(prev.timeline) }), mergeKey);
+  };
+
+  const setSnippets = (updater: (prev: ShaderSnippet[]) => ShaderSnippet[], mergeKey?: string) => {
+    updateStudio(prev => ({ ...prev, snippets: updater(prev.snippets) }), mergeKey);
+  };
+
+  const setClockMode = (mode: ClockMode) => {
+    updateStudio(prev => ({ ...prev, clockMode: mode }));
+  };
+
+  const setLfos = (updater: (prev: Lfo[]) => Lfo[], mergeKey?: string) => {
+    updateStudio(prev => ({ ...prev, lfos: updater(prev.lfos) }), mergeKey);
+  };
+
+  const updatePipeline = (updater: (prev: Pipeline) => Pipeline, mergeKey?: string) => {
+    updateStudio(prev => ({ ...prev, pipeline: updater(prev.pipeline) }), mergeKey);
+  };
+
+  // The first switch to graph mode seeds the graph from the shader list
+  const setPipelineMode = (mode: PipelineMode) => {
+    updatePipeline(prev => {
+      if (mode === 'graph' && prev.nodes.length === 0) {
+        return createGraphFromStack(prev, shaders);
+      }
+      return { ...prev, mode };
+    });
+  };
+
   // Initialize custom hooks
-  const { updateShaderCommands, render } = useWebGLRenderer({
-    canvasRef,
-    videoCanvasRef,
-    shaders,
-    objects,
+  const { getTime: getTimelineTime, seek: seekTimeline } = useTimelineClock({
+    duration: timeline.duration,
     isPlaying,
-    isVideoLoaded,
-    animationFrameRef,
+  });
+
+  // Initialize video canvas renderer
+  const { getVideoCanvas, getVideoDuration, getVideoTime, seekVideoFrame, videoElement } = useVideoCanvasRenderer({
+    source,
+    isPlaying,
+    setIsVideoLoaded,
+    onSourceError: setSourceError,
+  });
+
+  // u_time follows the source video, or the project's own clock, unless the project uses wall time
+  const { tick: tickClock, getClock, getDuration: getClockDuration } = useStudioClock({
+    mode: clockMode,
+    isPlaying,
+    getMediaTime: getVideoTime,
+    getMediaDuration: getVideoDuration,
+    timelineDuration: timeline.duration,
   });
 
   const { drawObjects } = useObjectRenderer({
@@ -41,11 +146,77 @@ export default function ShaderStudio() {
     objectsVisible,
   });
 
-  // Initialize video canvas renderer
-  const { getVideoCanvas } = useVideoCanvasRenderer({
-    videoUrl: "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4",
+  const {
+    updateShaderCommands,
+    validateShader,
+    supportsGlsl300,
+    evaluateFrame,
+    drawFrame,
+    captureFrame,
+    clearFeedback,
+    render,
+    shaderErrors,
+  } = useWebGLRenderer({
+    canvasRef,
+    videoCanvasRef,
+    shaders,
+    snippets,
+    luts,
+    objects,
+    objectsVisible,
+    inputStateRef,
+    audioStateRef,
     isPlaying,
-    setIsVideoLoaded,
+    loopWhilePaused: clockMode === 'wall',
+    isExportingRef,
+    animationFrameRef,
+    timeline,
+    lfos,
+    pipeline,
+    getTimelineTime,
+    tickClock,
+    drawOverlay: drawObjects,
+  });
+
+  // Pointer and keyboard uniforms; the render loop picks them up while playing
+  const canvasInputHandlers = usePointerInput({
+    canvasRef,
+    inputStateRef,
+    onInput: () => {
+      if (!isPlaying) render();
+    },
+  });
+
+  // Audio-reactive uniforms listen to the source's soundtrack or a separate file
+  useAudioInput({
+    mode: audioMode,
+    sourceElement: videoElement,
+    fileUrl: audioFile?.url ?? null,
+    isPlaying,
+    monitor: audioMonitor,
+    audioStateRef,
+    onAudioError: setSourceError,
+  });
+
+  const { exportVideo, cancelExport, progress: exportProgress, exportError, exportWarning, clearExportError } = useVideoExporter({
+    canvasRef,
+    evaluateFrame,
+    drawFrame,
+    seekVideoFrame,
+    clearFeedback,
+    timelineDuration: timeline.duration,
+    getClockDuration,
+    isPlaying,
+    setIsPlaying,
+    isExportingRef,
+  });
+
+  const { exportStill, isExportingStill, stillError, clearStillError } = useStillExporter({
+    canvasRef,
+    evaluateFrame,
+    captureFrame,
+    getTimelineTime,
+    getClock,
   });
 
   // Update videoCanvasRef when the video canvas is available
@@ -65,35 +236,70 @@ export default function ShaderStudio() {
     updateVideoCanvas();
   }, [getVideoCanvas, render]);
 
+  // Object URLs for local files are released once another source replaces them
+  useEffect(() => {
+    return () => {
+      if (source.kind === 'file' && source.url) {
+        URL.revokeObjectURL(source.url);
+      }
+    };
+  }, [source]);
+
+  useEffect(() => {
+    return () => {
+      if (audioFile) URL.revokeObjectURL(audioFile.url);
+    };
+  }, [audioFile]);
+
+  const openAudioFile = (file: File) => {
+    if (!file.type.startsWith('audio/') && !file.type.startsWith('video/')) {
+      setSourceError(`${file.name} is not an audio file.`);
+      return;
+    }
+    setAudioFile({ name: file.name, url: URL.createObjectURL(file) });
+    setAudioMode('file');
+  };
+
+  const selectSource = (next: InputSource) => {
+    setSourceError(null);
+    setSource(next);
+  };
+
+  const openSourceFile = (file: File) => {
+    const next = createFileSource(file);
+    if (!next) {
+      setSourceError(`${file.name} is not a video or image file.`);
+      return;
+    }
+    selectSource(next);
+  };
+
   // Update shader commands when shaders change
   useEffect(() => {
     updateShaderCommands();
-  }, [shaders, objects, updateShaderCommands]);
+  }, [shaders, updateShaderCommands]);
 
-  // Redraw objects when they change
+  // Start/stop rendering. render() restarts the loop while playing and draws a
+  // single still frame while paused, so edits (including to objects) and a newly
+  // loaded source still show up. It also picks up again once a video export ends.
+  const isExportingVideo = exportProgress !== null;
   useEffect(() => {
-    drawObjects();
-  }, [objects, selectedObject, objectsVisible, drawObjects]);
+    render();
+  }, [isPlaying, isVideoLoaded, isExportingVideo, render]);
 
-  // Start/stop rendering
-  useEffect(() => {
-    if (isPlaying) {
-      // Start render loop as soon as playing starts
+  const seek = (time: number) => {
+    seekTimeline(time);
+    if (!isPlaying) {
       render();
-    } else {
-      // Stop render loop when paused
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = undefined;
-      }
     }
-  }, [isPlaying, render]);
+  };
 
   const addObject = (x: number, y: number) => {
     if (currentTool === 'select') return;
 
     const newObject: CanvasObject = {
       id: Date.now().toString(),
+      name: createBindingName(currentTool, objects),
       type: currentTool,
       x: x - 50,
       y: y - 25,
@@ -111,9 +317,11 @@ export default function ShaderStudio() {
   };
 
   const updateObject = (id: string, updates: Partial<CanvasObject>) => {
+    // Typing into a property field merges into one history entry; toggles don't
+    const isContinuous = !('visible' in updates);
     setObjects(prev => prev.map(obj =>
       obj.id === id ? { ...obj, ...updates } : obj
-    ));
+    ), isContinuous ? `object:${id}:${Object.keys(updates).sort().join(',')}` : undefined);
   };
 
   const deleteObject = (id: string) => {
@@ -123,32 +331,119 @@ export default function ShaderStudio() {
     }
   };
 
+  const deleteAllObjects = () => {
+    setObjects(() => []);
+    setSelectedObject(null);
+  };
+
   const selectedObjectData = useMemo(() =>
     objects.find(obj => obj.id === selectedObject) || null,
     [objects, selectedObject]
   );
 
   const updateShader = (id: string, updates: Partial<Shader>) => {
-    setShaders(prev => prev.map(shader =>
-      shader.id === id ? { ...shader, ...updates } : shader
-    ));
+    // Slider drags and typing only touch uniforms, the blend, audio bindings or
+    // expressions and merge into one history entry, per uniform for the maps
+    // keyed by uniform name, so editing another uniform starts a new entry
+    const updatedKeys = Object.keys(updates) as (keyof Shader)[];
+    let mergeKey: string | undefined;
+    if (updatedKeys.length === 1 && updatedKeys[0] === 'blend') {
+      mergeKey = `shader:${id}:blend`;
+    } else if (updatedKeys.length === 1 && ['uniforms', 'audio', 'expressions'].includes(updatedKeys[0])) {
+      const key = updatedKeys[0] as 'uniforms' | 'audio' | 'expressions';
+      const before: Record<string, unknown> = shaders.find(shader => shader.id === id)?.[key] ?? {};
+      const after: Record<string, unknown> = updates[key] ?? {};
+      const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+        .filter(name => before[name] !== after[name]);
+      mergeKey = changed.length === 1 ? `shader:${id}:${key}:${changed[0]}` : undefined;
+    }
+
+    setShaders(prev => prev.map(shader => {
+      if (shader.id !== id) return shader;
+
+      // Edited source may declare new uniforms or drop old ones
+      if (updates.fragmentShader !== undefined && updates.fragmentShader !== shader.fragmentShader) {
+        return { ...shader, ...updates, ...syncShaderUniforms(shader, updates.fragmentShader) };
+      }
+      return { ...shader, ...updates };
+    }), mergeKey);
   };
 
   const deleteShader = (id: string) => {
-    setShaders(prev => prev.filter(shader => shader.id !== id));
+    updateStudio(prev => ({
+      ...prev,
+      shaders: prev.shaders.filter(shader => shader.id !== id),
+      pipeline: removeNodes(prev.pipeline, node => node.shaderId === id),
+    }));
   };
 
-  const addCustomShader = (name: string, fragmentShader: string) => {
+  const addCustomShader = (name: string, fragmentShader: string, feedback?: FeedbackMode) => {
     const newShader: Shader = {
       id: Date.now().toString(),
       name,
       fragmentShader,
-      uniforms: {},
+      ...syncShaderUniforms({ uniforms: {}, uniformSchema: {} }, fragmentShader),
       enabled: true,
+      ...(feedback && { feedback }),
     };
     setShaders(prev => [...prev, newShader]);
   };
 
+  // Snippets are looked up by name, so renaming one changes what shaders include
+  const addSnippet = (snippet: ShaderSnippet) => {
+    setSnippets(prev => [...prev, snippet]);
+  };
+
+  const updateSnippet = (name: string, snippet: ShaderSnippet) => {
+    setSnippets(prev => prev.map(existing => (existing.name === name ? snippet : existing)));
+  };
+
+  const deleteSnippet = (name: string) => {
+    setSnippets(prev => prev.filter(existing => existing.name !== name));
+  };
+
+  // A loaded LUT joins the project and is picked for the pass it was loaded on
+  const loadLut = async (file: File, shaderId: string) => {
+    try {
+      const lut = parseCube(await file.text(), Date.now().toString(), file.name.replace(/\.[^.]+$/, ''));
+      updateStudio(prev => ({
+        ...prev,
+        luts: [...prev.luts, lut],
+        shaders: prev.shaders.map(shader => (shader.id === shaderId ? { ...shader, lut: lut.id } : shader)),
+      }));
+      setProjectError(null);
+    } catch (e) {
+      if (e instanceof CubeParseError) {
+        setProjectError([`Could not load ${file.name}: ${e.message}`]);
+      } else {
+        console.error('Unexpected error loading LUT:', e);
+        setProjectError([`Could not load ${file.name}.`]);
+      }
+    }
+  };
+
+  const deleteLut = (id: string) => {
+    updateStudio(prev => ({
+      ...prev,
+      luts: prev.luts.filter(lut => lut.id !== id),
+      shaders: prev.shaders.map(shader => (shader.lut === id ? { ...shader, lut: undefined } : shader)),
+    }));
+  };
+
+  const addLfo = () => {
+    setLfos(prev => [...prev, createLfo(Date.now().toString(), prev)]);
+  };
+
+  // Typing into a field merges into one history entry; adding a target doesn't
+  const updateLfo = (id: string, updates: Partial<Lfo>) => {
+    const mergeKey = 'targets' in updates ? undefined : `lfo:${id}:${Object.keys(updates).sort().join(',')}`;
+    setLfos(prev => prev.map(lfo => (lfo.id === id ? { ...lfo, ...updates } : lfo)), mergeKey);
+  };
+
+  const deleteLfo = (id: string) => {
+    setLfos(prev => prev.filter(lfo => lfo.id !== id));
+  };
+
   const reorderShaders = (dragIndex: number, hoverIndex: number) => {
     setShaders(prev => {
       const newShaders = [...prev];
@@ -159,6 +454,106 @@ export default function ShaderStudio() {
     });
   };
 
+  const exportProject = () => {
+    const json = serializeProject({ shaders, objects, objectsVisible, timeline, pipeline, snippets, luts, lfos, clockMode, source });
+    downloadBlob(new Blob([json], { type: 'application/json' }), `project${PROJECT_FILE_EXTENSION}`);
+  };
+
+  // ISF passes join the end of the chain: appended to the list, or wired after the graph's output
+  const importIsfShader = async (file: File) => {
+    try {
+      const result = importIsf(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+      const stamp = Date.now();
+      const added: Shader[] = result.passes.map((pass, i) => ({
+        id: `${stamp}-${i}`,
+        name: pass.name,
+        fragmentShader: pass.fragmentShader,
+        ...syncShaderUniforms({ uniforms: {}, uniformSchema: {} }, pass.fragmentShader),
+        enabled: true,
+        ...(pass.feedback && { feedback: pass.feedback }),
+      }));
+
+      updateStudio(prev => {
+        if (prev.pipeline.mode !== 'graph') {
+          return { ...prev, shaders: [...prev.shaders, ...added] };
+        }
+        const effectInput = prev.pipeline.output ?? SOURCE_NODE_ID;
+        const nodeIds = added.map(shader => `node-${shader.id}`);
+        const nodes: GraphNode[] = result.passes.map((pass, i) => ({
+          id: nodeIds[i],
+          shaderId: added[i].id,
+          inputs: pass.inputs.map(input => {
+            if (input.kind === 'effect') return effectInput;
+            if (input.kind === 'source') return SOURCE_NODE_ID;
+            return nodeIds[input.index];
+          }),
+          x: 240 + i * 200,
+          y: 320,
+        }));
+        return {
+          ...prev,
+          shaders: [...prev.shaders, ...added],
+          pipeline: { ...prev.pipeline, nodes: [...prev.pipeline.nodes, ...nodes], output: nodeIds[nodeIds.length - 1] },
+        };
+      });
+
+      const warnings = [...result.warnings];
+      if (result.needsGraph && pipeline.mode === 'stack') {
+        warnings.push('Some passes read buffers other than the previous pass; import it in Graph mode to wire them');
+      }
+      setProjectError(warnings.length > 0 ? [`Imported ${file.name} with warnings:`, ...warnings] : null);
+    } catch (e) {
+      if (e instanceof IsfParseError) {
+        setProjectError([`Could not load ${file.name}: ${e.message}`]);
+      } else {
+        console.error('Unexpected error loading ISF shader:', e);
+        setProjectError([`Could not load ${file.name}.`]);
+      }
+    }
+  };
+
+  // Other hosts have no snippet library, so includes are expanded first
+  const exportIsfShader = (shader: Shader) => {
+    const { source: fragmentShader } = preprocessShader(shader.fragmentShader, snippets);
+    const { text, warnings } = exportIsf({ ...shader, fragmentShader });
+    const filename = shader.name.replace(/[^\w-]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'shader';
+    downloadBlob(new Blob([text], { type: 'text/plain' }), `${filename}${ISF_FILE_EXTENSION}`);
+    setProjectError(warnings.length > 0 ? [`Exported ${shader.name} with warnings:`, ...warnings] : null);
+  };
+
+  const importProject = async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      // Loading a project is a single undoable edit
+      updateStudio(() => ({
+        shaders: project.shaders,
+        objects: project.objects,
+        objectsVisible: project.objectsVisible,
+        timeline: project.timeline,
+        pipeline: project.pipeline,
+        snippets: project.snippets,
+        luts: project.luts,
+        lfos: project.lfos,
+        clockMode: project.clockMode,
+      }));
+      // Local files and screen capture need the user to pick them again
+      if (needsReselect(project.source)) {
+        setSourceError(`This project used ${getSourceLabel(project.source)} as its source. Choose it again from the source menu.`);
+      } else {
+        selectSource(project.source);
+      }
+      setSelectedObject(null);
+      setProjectError(null);
+    } catch (e) {
+      if (e instanceof ProjectLoadError) {
+        setProjectError([`Could not load ${file.name}: ${e.message}`, ...e.details]);
+      } else {
+        console.error('Unexpected error loading project:', e);
+        setProjectError([`Could not load ${file.name}.`]);
+      }
+    }
+  };
+
   return (
     <DndProvider backend={HTML5Backend}>
       <div className="h-screen flex bg-gray-900 text-white">
@@ -171,25 +566,111 @@ export default function ShaderStudio() {
           selectedObjectData={selectedObjectData}
           updateObject={updateObject}
           deleteObject={deleteObject}
+          deleteAllObjects={deleteAllObjects}
           objectsVisible={objectsVisible}
           setObjectsVisible={setObjectsVisible}
+          objectPlacement={pipeline.objectPlacement}
+          setObjectPlacement={(placement) => updatePipeline(prev => ({ ...prev, objectPlacement: placement }))}
           shaders={shaders}
           updateShader={updateShader}
           deleteShader={deleteShader}
           addCustomShader={addCustomShader}
+          onImportIsf={importIsfShader}
+          onExportIsf={exportIsfShader}
+          luts={luts}
+          onLoadLut={loadLut}
+          onDeleteLut={deleteLut}
+          snippets={snippets}
+          addSnippet={addSnippet}
+          updateSnippet={updateSnippet}
+          deleteSnippet={deleteSnippet}
           reorderShaders={reorderShaders}
+          shaderErrors={shaderErrors}
+          validateShader={validateShader}
+          supportsGlsl300={supportsGlsl300}
+          clearFeedback={clearFeedback}
+          pipelineMode={pipeline.mode}
+          setPipelineMode={setPipelineMode}
+          onOpenNodeEditor={() => setShowNodeEditor(true)}
+          audioMode={audioMode}
+          setAudioMode={setAudioMode}
+          audioFileName={audioFile?.name ?? null}
+          onOpenAudioFile={openAudioFile}
+          audioMonitor={audioMonitor}
+          setAudioMonitor={setAudioMonitor}
+          audioStateRef={audioStateRef}
+          lfos={lfos}
+          addLfo={addLfo}
+          updateLfo={updateLfo}
+          deleteLfo={deleteLfo}
         />
 
         <div className="flex-1 flex flex-col">
           <CanvasArea
             canvasRef={canvasRef}
             overlayCanvasRef={overlayCanvasRef}
+            canvasInputHandlers={canvasInputHandlers}
             isPlaying={isPlaying}
             setIsPlaying={setIsPlaying}
             addObject={addObject}
+            onExportProject={exportProject}
+            onImportProject={importProject}
+            projectError={projectError}
+            clearProjectError={() => setProjectError(null)}
+            undo={undo}
+            redo={redo}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            onOpenExport={() => setShowExportDialog(true)}
+            source={source}
+            onSelectSource={selectSource}
+            onOpenSourceFile={openSourceFile}
+            sourceError={sourceError}
+            clearSourceError={() => setSourceError(null)}
+          />
+          <TimelinePanel
+            timeline={timeline}
+            shaders={shaders}
+            objects={objects}
+            getTime={getTimelineTime}
+            seek={seek}
+            isPlaying={isPlaying}
+            updateTimeline={updateTimeline}
+            clockMode={clockMode}
+            setClockMode={setClockMode}
           />
         </div>
       </div>
+
+      {showExportDialog && (
+        <ExportDialog
+          defaultDuration={getVideoDuration() ?? timeline.duration}
+          aspectRatio={canvasRef.current ? canvasRef.current.width / canvasRef.current.height : 16 / 9}
+          progress={exportProgress}
+          exportError={exportError}
+          exportWarning={exportWarning}
+          onExportVideo={exportVideo}
+          onCancelExport={cancelExport}
+          isExportingStill={isExportingStill}
+          stillError={stillError}
+          onExportStill={exportStill}
+          onClose={() => {
+            clearExportError();
+            clearStillError();
+            setShowExportDialog(false);
+          }}
+        />
+      )}
+
+      {showNodeEditor && (
+        <NodeEditor
+          pipeline={pipeline}
+          shaders={shaders}
+          snippets={snippets}
+          updatePipeline={updatePipeline}
+          onClose={() => setShowNodeEditor(false)}
+        />
+      )}
     </DndProvider>
   );
 }
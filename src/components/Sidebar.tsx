@@ -1,6 +1,40 @@
-import React, { useState } from 'react';
-import { Plus, Trash2, Move, Type, Square, Circle, Eye, EyeOff, GripVertical } from 'lucide-react';
-import { CanvasObject, Shader } from '../types';
+import React, { MutableRefObject, useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, Trash2, Move, Type, Square, Circle, Eye, EyeOff, GripVertical, AlertTriangle, Share2, Eraser, Upload, Download } from 'lucide-react';
+import { AudioSourceMode, BlendMode, CanvasObject, ColorLut, FeedbackMode, Lfo, ObjectPlacement, PipelineMode, Shader, ShaderError, ShaderSnippet } from '../types';
+import UniformControl from './UniformControl';
+import ShaderCodeEditor from './ShaderCodeEditor';
+import SnippetLibrary from './SnippetLibrary';
+import AudioPanel from './AudioPanel';
+import AudioBindingControl from './AudioBindingControl';
+import ExpressionControl from './ExpressionControl';
+import LfoPanel from './LfoPanel';
+import { AudioInputState } from './AudioInput';
+import { AUDIO_BINDABLE_TYPES } from '../utils/audioAnalysis';
+import { EXPRESSION_UNIFORM_TYPES } from '../utils/modulation';
+import { parseUniformSchema } from '../utils/glslUniforms';
+import { formatShaderError } from '../utils/shaderCompiler';
+import { ISF_FILE_EXTENSION } from '../utils/isf';
+import { CUBE_FILE_EXTENSION } from '../utils/cubeLut';
+import { getExpandedSources } from '../utils/glslPreprocessor';
+import { defaultShaders } from '../shaders/defaultShaders';
+import { getPlacementKey, getPlacementOptions, parsePlacementKey } from '../utils/objectLayers';
+import {
+  SHADERTOY_CHANNEL_SOURCES,
+  ShadertoyChannelSource,
+  convertShadertoy,
+  getUsedShadertoyChannels,
+  isShadertoyShader,
+} from '../utils/shadertoy';
+import { MAX_OBJECTS, OBJECT_STRUCT_DECLARATION, namedUniform, sanitizeBindingName } from '../utils/objectBindings';
+
+const BLEND_MODE_OPTIONS: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'add', label: 'Add' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'difference', label: 'Difference' },
+];
 
 interface SidebarProps {
   // Tool state
@@ -14,15 +48,50 @@ interface SidebarProps {
   selectedObjectData: CanvasObject | null;
   updateObject: (id: string, updates: Partial<CanvasObject>) => void;
   deleteObject: (id: string) => void;
+  deleteAllObjects: () => void;
   objectsVisible: boolean;
   setObjectsVisible: (visible: boolean) => void;
+  objectPlacement: ObjectPlacement;
+  setObjectPlacement: (placement: ObjectPlacement) => void;
   
   // Shaders state
   shaders: Shader[];
   updateShader: (id: string, updates: Partial<Shader>) => void;
   deleteShader: (id: string) => void;
-  addCustomShader: (name: string, fragmentShader: string) => void;
+  addCustomShader: (name: string, fragmentShader: string, feedback?: FeedbackMode) => void;
+  onImportIsf: (file: File) => void;
+  onExportIsf: (shader: Shader) => void;
+  luts: ColorLut[];
+  onLoadLut: (file: File, shaderId: string) => void;
+  onDeleteLut: (id: string) => void;
+  snippets: ShaderSnippet[];
+  addSnippet: (snippet: ShaderSnippet) => void;
+  updateSnippet: (name: string, snippet: ShaderSnippet) => void;
+  deleteSnippet: (name: string) => void;
   reorderShaders: (dragIndex: number, hoverIndex: number) => void;
+  shaderErrors: Record<string, ShaderError[]>;
+  validateShader: (fragmentShader: string) => ShaderError[];
+  // Whether the renderer runs on WebGL2 and can compile #version 300 es shaders
+  supportsGlsl300: boolean;
+  clearFeedback: () => void;
+  pipelineMode: PipelineMode;
+  setPipelineMode: (mode: PipelineMode) => void;
+  onOpenNodeEditor: () => void;
+
+  // Audio state
+  audioMode: AudioSourceMode;
+  setAudioMode: (mode: AudioSourceMode) => void;
+  audioFileName: string | null;
+  onOpenAudioFile: (file: File) => void;
+  audioMonitor: boolean;
+  setAudioMonitor: (monitor: boolean) => void;
+  audioStateRef: MutableRefObject<AudioInputState>;
+
+  // Modulation state
+  lfos: Lfo[];
+  addLfo: () => void;
+  updateLfo: (id: string, updates: Partial<Lfo>) => void;
+  deleteLfo: (id: string) => void;
 }
 
 export default function Sidebar(props: SidebarProps) {
@@ -35,21 +104,93 @@ export default function Sidebar(props: SidebarProps) {
     selectedObjectData,
     updateObject,
     deleteObject,
+    deleteAllObjects,
     objectsVisible,
     setObjectsVisible,
+    objectPlacement,
+    setObjectPlacement,
     shaders,
     updateShader,
     deleteShader,
     addCustomShader,
+    onImportIsf,
+    onExportIsf,
+    luts,
+    onLoadLut,
+    onDeleteLut,
+    snippets,
+    addSnippet,
+    updateSnippet,
+    deleteSnippet,
     reorderShaders,
+    shaderErrors,
+    validateShader,
+    supportsGlsl300,
+    clearFeedback,
+    pipelineMode,
+    setPipelineMode,
+    onOpenNodeEditor,
+    audioMode,
+    setAudioMode,
+    audioFileName,
+    onOpenAudioFile,
+    audioMonitor,
+    setAudioMonitor,
+    audioStateRef,
+    lfos,
+    addLfo,
+    updateLfo,
+    deleteLfo,
   } = props;
 
+  const isfInputRef = useRef<HTMLInputElement>(null);
+  const lutInputRef = useRef<HTMLInputElement>(null);
+  // Pass whose LUT select opened the file picker
+  const lutTargetRef = useRef<string | null>(null);
   const [draggedShader, setDraggedShader] = useState<string | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   const [showShaderEditor, setShowShaderEditor] = useState(false);
   const [customShader, setCustomShader] = useState('');
   const [customShaderName, setCustomShaderName] = useState('');
   const [editingShader, setEditingShader] = useState<string | null>(null);
+  // Feedback a converted Shadertoy shader needs once it's saved
+  const [pendingFeedback, setPendingFeedback] = useState<FeedbackMode | undefined>(undefined);
+  const [shadertoyChannels, setShadertoyChannels] = useState<Record<number, ShadertoyChannelSource>>({});
+
+  const [editorErrors, setEditorErrors] = useState<ShaderError[]>([]);
+
+  const placementOptions = getPlacementOptions(shaders);
+
+  // Built-in uniforms can come from snippets or sub-passes, so cards look at every expanded source
+  const expandedSources = useMemo(
+    () => Object.fromEntries(shaders.map(shader => [shader.id, getExpandedSources(shader, snippets).join('\n')])),
+    [shaders, snippets]
+  );
+
+  const soloActive = shaders.some(shader => shader.enabled && shader.solo);
+
+  const isShadertoy = useMemo(() => isShadertoyShader(customShader), [customShader]);
+
+  const convertFromShadertoy = () => {
+    const { fragmentShader, usesFeedback } = convertShadertoy(customShader, shadertoyChannels, supportsGlsl300);
+    setCustomShader(fragmentShader);
+    setPendingFeedback(usesFeedback ? 'self' : undefined);
+  };
+
+  const detectedUniforms = useMemo(() => parseUniformSchema(customShader), [customShader]);
+
+  // Compile the editor contents in the background while typing
+  useEffect(() => {
+    if (!showShaderEditor || !customShader.trim()) {
+      setEditorErrors([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setEditorErrors(validateShader(customShader));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [customShader, showShaderEditor, validateShader]);
 
   const handleDragStart = (e: React.DragEvent, shaderId: string) => {
     setDraggedShader(shaderId);
@@ -90,16 +231,17 @@ export default function Sidebar(props: SidebarProps) {
 
     if (editingShader) {
       // Update existing shader
-      updateShader(editingShader, { name: customShaderName, fragmentShader: customShader });
+      updateShader(editingShader, {
+        name: customShaderName,
+        fragmentShader: customShader,
+        ...(pendingFeedback && { feedback: pendingFeedback }),
+      });
     } else {
       // Add new shader
-      addCustomShader(customShaderName, customShader);
+      addCustomShader(customShaderName, customShader, pendingFeedback);
     }
 
-    setCustomShader('');
-    setCustomShaderName('');
-    setShowShaderEditor(false);
-    setEditingShader(null);
+    cancelShaderEditor();
   };
 
   const startEditingShader = (shader: Shader) => {
@@ -114,6 +256,8 @@ export default function Sidebar(props: SidebarProps) {
     setCustomShaderName('');
     setShowShaderEditor(false);
     setEditingShader(null);
+    setPendingFeedback(undefined);
+    setShadertoyChannels({});
   };
 
   return (
@@ -159,10 +303,7 @@ export default function Sidebar(props: SidebarProps) {
               {objectsVisible ? <Eye size={18} /> : <EyeOff size={18} />}
             </button>
             <button
-              onClick={() => {
-                objects.forEach(obj => deleteObject(obj.id));
-                setSelectedObject(null);
-              }}
+              onClick={deleteAllObjects}
               className="p-2 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded-lg transition-colors"
               title="Delete all objects"
             >
@@ -170,6 +311,19 @@ export default function Sidebar(props: SidebarProps) {
             </button>
           </div>
         </div>
+        <div className="flex items-center gap-2 mb-3">
+          <label className="text-sm text-gray-300">Layer</label>
+          <select
+            value={getPlacementKey(objectPlacement)}
+            onChange={(e) => setObjectPlacement(parsePlacementKey(e.target.value))}
+            className="flex-1 p-1 bg-gray-700 rounded text-sm text-white"
+            title="Where objects are composited into the shader chain"
+          >
+            {placementOptions.map(option => (
+              <option key={option.key} value={option.key}>{option.label}</option>
+            ))}
+          </select>
+        </div>
         <div className="space-y-3">
           {objects.map(obj => (
             <div
@@ -188,6 +342,7 @@ export default function Sidebar(props: SidebarProps) {
                     {obj.type === 'rect' && <Square size={16} />}
                     {obj.type === 'circle' && <Circle size={16} />}
                     {obj.type}
+                    <span className="font-mono text-xs text-gray-300 normal-case">{obj.name}</span>
                     {!obj.visible && <span className="text-xs text-gray-400">(hidden)</span>}
                   </div>
                   <div className="text-sm text-gray-300 mt-1">
@@ -238,6 +393,22 @@ export default function Sidebar(props: SidebarProps) {
           <div className="mt-6 p-4 bg-gray-700 rounded-lg">
             <h4 className="text-lg font-semibold mb-3 text-blue-300">Object Properties</h4>
             <div className="space-y-3">
+              <div>
+                <label className="block text-sm mb-1">Binding name</label>
+                <input
+                  type="text"
+                  value={selectedObjectData.name}
+                  onChange={(e) => {
+                    updateObject(selectedObjectData.id, { name: sanitizeBindingName(e.target.value, false) });
+                  }}
+                  onBlur={(e) => updateObject(selectedObjectData.id, { name: sanitizeBindingName(e.target.value) })}
+                  className="w-full p-2 bg-gray-600 rounded text-white font-mono"
+                />
+                <div className="text-xs text-gray-300 mt-1 font-mono">{namedUniform(selectedObjectData.name || '…', 'pos')}</div>
+                {objects.some(obj => obj.id !== selectedObjectData.id && obj.name === selectedObjectData.name) && (
+                  <div className="text-xs text-yellow-400 mt-1">Another object already uses this name; the first one in the list is bound</div>
+                )}
+              </div>
               <div>
                 <label className="block text-sm mb-1">X Position</label>
                 <input
@@ -309,6 +480,23 @@ export default function Sidebar(props: SidebarProps) {
                   className="w-full p-2 bg-gray-600 rounded"
                 />
               </div>
+              <div>
+                <label className="block text-sm mb-1">Layer</label>
+                <select
+                  value={selectedObjectData.placement ? getPlacementKey(selectedObjectData.placement) : ''}
+                  onChange={(e) => {
+                    updateObject(selectedObjectData.id, {
+                      placement: e.target.value ? parsePlacementKey(e.target.value) : undefined,
+                    });
+                  }}
+                  className="w-full p-2 bg-gray-600 rounded text-white"
+                >
+                  <option value="">Default layer</option>
+                  {placementOptions.map(option => (
+                    <option key={option.key} value={option.key}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
               {selectedObjectData.type === 'text' && (
                 <div>
                   <label className="block text-sm mb-1">Text</label>
@@ -331,22 +519,81 @@ export default function Sidebar(props: SidebarProps) {
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-xl font-semibold">Shaders</h3>
-          <button
-            onClick={() => setShowShaderEditor(!showShaderEditor)}
-            className="p-2 text-green-400 hover:text-green-300 hover:bg-green-900/20 rounded-lg transition-colors"
-            title="Add custom shader"
-          >
-            <Plus size={18} />
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => isfInputRef.current?.click()}
+              className="p-2 text-blue-400 hover:text-blue-300 hover:bg-blue-900/20 rounded-lg transition-colors"
+              title="Import an ISF shader"
+            >
+              <Upload size={18} />
+            </button>
+            <input
+              ref={lutInputRef}
+              type="file"
+              accept={CUBE_FILE_EXTENSION}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file && lutTargetRef.current) onLoadLut(file, lutTargetRef.current);
+                e.target.value = '';
+              }}
+            />
+            <input
+              ref={isfInputRef}
+              type="file"
+              accept={`${ISF_FILE_EXTENSION},.frag,.isf`}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportIsf(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => setShowShaderEditor(!showShaderEditor)}
+              className="p-2 text-green-400 hover:text-green-300 hover:bg-green-900/20 rounded-lg transition-colors"
+              title="Add custom shader"
+            >
+              <Plus size={18} />
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 mb-3">
+          {(['stack', 'graph'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setPipelineMode(mode)}
+              className={`flex-1 py-1 rounded text-sm transition-colors ${
+                pipelineMode === mode ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {mode === 'stack' ? 'Stack' : 'Graph'}
+            </button>
+          ))}
+          {pipelineMode === 'graph' && (
+            <button
+              onClick={onOpenNodeEditor}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+              title="Open the node editor"
+            >
+              <Share2 size={14} />
+              Edit
+            </button>
+          )}
         </div>
         <div className="text-xs text-gray-400 mb-4 italic">
-          Drag shaders to reorder • Order affects the final result
+          {pipelineMode === 'stack'
+            ? 'Drag shaders to reorder • Order affects the final result'
+            : 'Wiring comes from the node graph • Settings here apply to every node using the shader'}
         </div>
         <div className="space-y-4">
           {shaders.map((shader, index) => {
-            const isCustomShader = !['grayscale', 'brightness', 'blur', 'chromatic'].includes(shader.id);
+            const isCustomShader = !defaultShaders.some(builtin => builtin.id === shader.id);
+            const isBypassed = shader.enabled && (shader.bypass || (soloActive && !shader.solo));
+            const blend = shader.blend ?? { mode: 'normal', opacity: 1 };
             const isDragging = draggedShader === shader.id;
             const isDropTarget = dragOverIndex === index;
+            const errors = shaderErrors[shader.id] ?? [];
             
             return (
               <div 
@@ -379,8 +626,21 @@ export default function Sidebar(props: SidebarProps) {
                       {shader.name}
                     </span>
                     {isCustomShader && <span className="text-xs text-green-400">(custom)</span>}
+                    {isBypassed && <span className="text-xs text-yellow-400">(bypassed)</span>}
+                    {errors.length > 0 && (
+                      <span title={errors.map(formatShaderError).join('\n')}>
+                        <AlertTriangle size={14} className="text-red-400" />
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => onExportIsf(shader)}
+                      className="p-1 text-gray-300 hover:text-white hover:bg-gray-800 rounded transition-colors"
+                      title="Export as ISF"
+                    >
+                      <Download size={14} />
+                    </button>
                     {isCustomShader && (
                       <button
                         onClick={() => deleteShader(shader.id)}
@@ -403,50 +663,173 @@ export default function Sidebar(props: SidebarProps) {
                     </label>
                   </div>
                 </div>
-                {Object.entries(shader.uniforms).map(([name, value]) => {
-                  // Define different ranges for different uniform types
-                  let min = 0, max = 2, step = 0.01;
-                  
-                  if (name === 'u_brightness') {
-                    min = -0.5;
-                    max = 0.5;
-                    step = 0.01;
-                  } else if (name === 'u_contrast') {
-                    min = 0.5;
-                    max = 3.0;
-                    step = 0.01;
-                  } else if (name === 'u_strength') {
-                    min = 0;
-                    max = shader.id === 'blur' ? 5.0 : 0.1;
-                    step = shader.id === 'blur' ? 0.1 : 0.001;
-                  }
-                  
-                  return (
-                    <div key={name} className="mb-3">
-                      <label className="block text-sm font-medium text-gray-300 mb-2">
-                        {name.replace('u_', '').replace('_', ' ').toUpperCase()}
-                      </label>
+                {errors.length > 0 && (
+                  <div className="mb-3 p-2 bg-red-900/30 border border-red-700 rounded text-xs text-red-300 font-mono text-left">
+                    <div>{formatShaderError(errors[0])}</div>
+                    {errors.length > 1 && <div className="text-red-400/70">+{errors.length - 1} more</div>}
+                    <div className="text-red-400/70 font-sans mt-1">Preview keeps this pass's last working version, or skips it</div>
+                  </div>
+                )}
+                <div className="flex items-center gap-2 mb-3 text-sm">
+                  <select
+                    value={blend.mode}
+                    onChange={(e) => updateShader(shader.id, { blend: { ...blend, mode: e.target.value as BlendMode } })}
+                    className="p-1 bg-gray-800 rounded text-white"
+                    title="How this pass's output is laid over its input"
+                  >
+                    {BLEND_MODE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={blend.opacity}
+                    onChange={(e) => updateShader(shader.id, { blend: { ...blend, opacity: parseFloat(e.target.value) } })}
+                    className="flex-1 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                    title="Opacity"
+                  />
+                  <span className="w-9 text-right text-xs text-gray-300">{Math.round(blend.opacity * 100)}%</span>
+                  <button
+                    onClick={() => updateShader(shader.id, { bypass: !shader.bypass })}
+                    className={`px-2 py-0.5 rounded text-xs font-semibold transition-colors ${
+                      shader.bypass ? 'bg-yellow-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'
+                    }`}
+                    title="Bypass: show the pass's input instead; feedback passes keep running for their history"
+                  >
+                    B
+                  </button>
+                  <button
+                    onClick={() => updateShader(shader.id, { solo: !shader.solo })}
+                    className={`px-2 py-0.5 rounded text-xs font-semibold transition-colors ${
+                      shader.solo ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'
+                    }`}
+                    title="Solo: bypass every pass that isn't soloed"
+                  >
+                    S
+                  </button>
+                </div>
+                {/\bu_prevFrame\b/.test(expandedSources[shader.id]) && (
+                  <div className="flex items-center gap-2 mb-3 text-sm">
+                    <span className="font-mono text-xs text-gray-300">u_prevFrame</span>
+                    <select
+                      value={shader.feedback ?? 'none'}
+                      onChange={(e) => updateShader(shader.id, { feedback: e.target.value as FeedbackMode })}
+                      className="flex-1 p-1 bg-gray-800 rounded text-white"
+                    >
+                      <option value="none">Off</option>
+                      <option value="self">This pass, last frame</option>
+                      <option value="final">Final output, last frame</option>
+                    </select>
+                    <button
+                      onClick={clearFeedback}
+                      disabled={(shader.feedback ?? 'none') === 'none'}
+                      className="p-1 text-gray-300 hover:text-white hover:bg-gray-800 rounded transition-colors disabled:opacity-40"
+                      title="Clear feedback buffers"
+                    >
+                      <Eraser size={14} />
+                    </button>
+                  </div>
+                )}
+                {/\bu_lut\b/.test(expandedSources[shader.id]) && (
+                  <div className="flex items-center gap-2 mb-3 text-sm">
+                    <span className="text-xs text-gray-300">LUT</span>
+                    <select
+                      value={shader.lut && luts.some(lut => lut.id === shader.lut) ? shader.lut : ''}
+                      onChange={(e) => updateShader(shader.id, { lut: e.target.value || undefined })}
+                      className="flex-1 p-1 bg-gray-800 rounded text-white"
+                    >
+                      <option value="">None</option>
+                      {luts.map(lut => (
+                        <option key={lut.id} value={lut.id}>{lut.name} ({lut.kind.toUpperCase()}, {lut.size})</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => {
+                        lutTargetRef.current = shader.id;
+                        lutInputRef.current?.click();
+                      }}
+                      className="p-1 text-gray-300 hover:text-white hover:bg-gray-800 rounded transition-colors"
+                      title="Load a .cube LUT"
+                    >
+                      <Upload size={14} />
+                    </button>
+                    <button
+                      onClick={() => shader.lut && onDeleteLut(shader.lut)}
+                      disabled={!shader.lut}
+                      className="p-1 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded transition-colors disabled:opacity-40"
+                      title="Remove this LUT from the project"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                )}
+                {(objects.length > 0 || shader.mask) && (
+                  <div className="flex items-center gap-2 mb-3 text-sm">
+                    <span className="text-xs text-gray-300">Mask</span>
+                    <select
+                      value={shader.mask && objects.some(obj => obj.id === shader.mask!.objectId) ? shader.mask.objectId : ''}
+                      onChange={(e) => updateShader(shader.id, {
+                        mask: e.target.value ? { objectId: e.target.value, invert: shader.mask?.invert ?? false } : undefined
+                      })}
+                      className="flex-1 p-1 bg-gray-800 rounded text-white"
+                      title="Only apply this pass inside an object"
+                    >
+                      <option value="">Whole frame</option>
+                      {objects.map(obj => (
+                        <option key={obj.id} value={obj.id}>{obj.name}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-1 text-xs text-gray-300 cursor-pointer">
                       <input
-                        type="range"
-                        min={min}
-                        max={max}
-                        step={step}
-                        value={value}
-                        onChange={(e) => {
-                          updateShader(shader.id, { 
-                            uniforms: { ...shader.uniforms, [name]: parseFloat(e.target.value) }
-                          });
+                        type="checkbox"
+                        checked={shader.mask?.invert ?? false}
+                        disabled={!shader.mask}
+                        onChange={(e) => shader.mask && updateShader(shader.id, {
+                          mask: { ...shader.mask, invert: e.target.checked }
+                        })}
+                        className="w-3 h-3 rounded"
+                      />
+                      Invert
+                    </label>
+                  </div>
+                )}
+                {Object.entries(shader.uniformSchema).map(([name, descriptor]) => (
+                  <React.Fragment key={name}>
+                    <UniformControl
+                      name={name}
+                      descriptor={descriptor}
+                      value={shader.uniforms[name]}
+                      onChange={(value) => {
+                        updateShader(shader.id, {
+                          uniforms: { ...shader.uniforms, [name]: value }
+                        });
+                      }}
+                    />
+                    {AUDIO_BINDABLE_TYPES.includes(descriptor.type) && (audioMode !== 'off' || shader.audio?.[name]) && (
+                      <AudioBindingControl
+                        binding={shader.audio?.[name]}
+                        onChange={(binding) => {
+                          const { [name]: _, ...others } = shader.audio ?? {};
+                          const audio = binding ? { ...others, [name]: binding } : others;
+                          updateShader(shader.id, { audio: Object.keys(audio).length > 0 ? audio : undefined });
                         }}
-                        className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
                       />
-                      <div className="flex justify-between text-xs text-gray-400 mt-1">
-                        <span>{min.toFixed(step < 0.01 ? 3 : 2)}</span>
-                        <span className="font-medium">{value.toFixed(step < 0.01 ? 3 : 2)}</span>
-                        <span>{max.toFixed(step < 0.01 ? 3 : 2)}</span>
-                      </div>
-                    </div>
-                  );
-                })}
+                    )}
+                    {EXPRESSION_UNIFORM_TYPES.includes(descriptor.type) && (
+                      <ExpressionControl
+                        expression={shader.expressions?.[name]}
+                        onChange={(expression) => {
+                          const { [name]: _, ...others } = shader.expressions ?? {};
+                          const expressions = expression !== undefined ? { ...others, [name]: expression } : others;
+                          updateShader(shader.id, { expressions: Object.keys(expressions).length > 0 ? expressions : undefined });
+                        }}
+                      />
+                    )}
+                  </React.Fragment>
+                ))}
               </div>
             );
           })}
@@ -475,12 +858,53 @@ export default function Sidebar(props: SidebarProps) {
             <label className="block text-sm font-medium text-gray-300 mb-2">
               Fragment Shader Code
             </label>
-            <textarea
+            <ShaderCodeEditor
               value={customShader}
-              onChange={(e) => setCustomShader(e.target.value)}
-              placeholder="Enter fragment shader code..."
-              className="w-full h-48 p-4 bg-gray-700 rounded-lg font-mono text-sm resize-none text-white placeholder-gray-400"
+              onChange={setCustomShader}
+              errors={editorErrors}
+              placeholder="Enter fragment shader code, or paste a Shadertoy mainImage()..."
             />
+            {isShadertoy && (
+              <div className="mt-2 p-3 bg-blue-900/30 border border-blue-700 rounded text-sm">
+                <div className="text-blue-200 mb-2">
+                  Shadertoy code detected. Converting wraps mainImage() for this app: iChannel0 is the pass input.
+                </div>
+                {getUsedShadertoyChannels(customShader).map(channel => (
+                  <div key={channel} className="flex items-center gap-2 mb-2">
+                    <span className="font-mono text-xs text-gray-300 w-20">iChannel{channel}</span>
+                    <select
+                      value={shadertoyChannels[channel] ?? 'input'}
+                      onChange={(e) => setShadertoyChannels({
+                        ...shadertoyChannels,
+                        [channel]: e.target.value as ShadertoyChannelSource,
+                      })}
+                      className="flex-1 p-1 bg-gray-700 rounded text-white text-xs"
+                    >
+                      {SHADERTOY_CHANNEL_SOURCES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <button
+                  onClick={convertFromShadertoy}
+                  className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 transition-colors"
+                >
+                  Convert
+                </button>
+              </div>
+            )}
+            {Object.keys(detectedUniforms).length > 0 && (
+              <div className="mt-2 text-xs text-gray-400">
+                <span className="font-semibold text-gray-300">Detected controls: </span>
+                {Object.entries(detectedUniforms).map(([name, descriptor]) => (
+                  <span key={name} className="font-mono mr-2">
+                    {name} ({descriptor.type}
+                    {descriptor.min !== undefined && ` ${descriptor.min}–${descriptor.max}`})
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
           
           <div className="mb-4 p-4 bg-gray-800 border border-gray-600 rounded-lg">
@@ -488,46 +912,120 @@ export default function Sidebar(props: SidebarProps) {
             <div className="space-y-2 text-sm max-h-48 overflow-y-auto">
               <div>
                 <span className="text-green-400 font-mono">uniform sampler2D u_texture;</span>
-                <div className="text-gray-300 text-xs ml-2">Input video texture</div>
+                <div className="text-gray-300 text-xs ml-2">Input source texture</div>
+              </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform sampler2D u_texture0; // u_texture1, …</span>
+                <div className="text-gray-300 text-xs ml-2">Named inputs. In the stack, u_texture1 is the original source; in the graph, each is a node input</div>
               </div>
               <div>
                 <span className="text-green-400 font-mono">uniform vec2 u_resolution;</span>
                 <div className="text-gray-300 text-xs ml-2">Canvas resolution (width, height)</div>
               </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform vec2 u_sourceResolution;</span>
+                <div className="text-gray-300 text-xs ml-2">Native size of the input source</div>
+              </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform sampler2D u_prevFrame;</span>
+                <div className="text-gray-300 text-xs ml-2">Last frame's output, for trails and echo. Choose the source on the shader card</div>
+              </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform sampler2D u_objectMask;</span>
+                <div className="text-gray-300 text-xs ml-2">White where visible objects are, transparent elsewhere (read .a)</div>
+              </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform float u_frame;</span>
+                <div className="text-gray-300 text-xs ml-2">Frames drawn while playing since the feedback history was last cleared</div>
+              </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform vec2 u_mouse;</span>
+                <div className="text-gray-300 text-xs ml-2">Pointer position over the canvas (0.0-1.0, bottom-left origin)</div>
+              </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform float u_mouseDown;</span>
+                <div className="text-gray-300 text-xs ml-2">1.0 while a button is held on the canvas</div>
+              </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform vec2 u_clickPos; uniform vec2 u_dragDelta;</span>
+                <div className="text-gray-300 text-xs ml-2">Where the last press started, and how far the pointer has moved since while held</div>
+              </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform sampler2D u_keyboard;</span>
+                <div className="text-gray-300 text-xs ml-2">Key states by keyCode: texture2D(u_keyboard, vec2((code + 0.5) / 256.0, 0.25)).r is 1.0 while held, y = 0.75 toggles on each press. Click the canvas first</div>
+              </div>
               <div>
                 <span className="text-green-400 font-mono">uniform float u_time;</span>
-                <div className="text-gray-300 text-xs ml-2">Time in seconds since start</div>
+                <div className="text-gray-300 text-xs ml-2">Seconds into the source video, or played so far; stops when paused. Pick wall-clock time in the Timeline panel</div>
+              </div>
+              <div>
+                <span className="text-green-400 font-mono">uniform float u_deltaTime; uniform float u_duration;</span>
+                <div className="text-gray-300 text-xs ml-2">Seconds since the last frame (0.0 while paused), and the length of the source video or, without one, the timeline</div>
               </div>
               <div>
                 <span className="text-purple-400 font-mono">varying vec2 v_texCoord;</span>
                 <div className="text-gray-300 text-xs ml-2">Texture coordinates (0.0-1.0)</div>
               </div>
+
+              <div className="pt-2 border-t border-gray-600">
+                <div className="text-blue-300 font-semibold mb-2">Snippets:</div>
+                <span className="text-green-400 font-mono">#include "noise"</span>
+                <div className="text-gray-300 text-xs ml-2">
+                  Pulls in a snippet from the library below, once per shader. "common" declares the usual header
+                </div>
+              </div>
+
+              <div className="pt-2 border-t border-gray-600">
+                <div className="text-blue-300 font-semibold mb-2">GLSL ES 3.00:</div>
+                <span className="text-green-400 font-mono">#version 300 es</span>
+                <div className="text-gray-300 text-xs ml-2">
+                  On the first line, switches the shader to WebGL2: declare in vec2 v_texCoord; and out vec4 fragColor;, and sample with texture()
+                </div>
+              </div>
               
+              <div className="pt-2 border-t border-gray-600">
+                <div className="text-blue-300 font-semibold mb-2">Custom uniform annotations:</div>
+                <span className="text-green-400 font-mono">uniform float u_amount; // @range 0 10 0.1 @default 0.5</span>
+                <div className="text-gray-300 text-xs ml-2">
+                  Any other uniform gets a control. Also supports @label, @step, @color (vec3) and @enum Off=0 On=1
+                </div>
+              </div>
+
               <div className="pt-2 border-t border-gray-600">
                 <div className="text-yellow-400 font-semibold mb-2">Object-based uniforms:</div>
                 {objects.map((obj, index) => (
                   <div key={obj.id} className="mb-2">
-                    <div className="text-yellow-400 font-mono text-xs">Object {index} ({obj.type}):</div>
+                    <div className="text-yellow-400 font-mono text-xs">{obj.name} ({obj.type}):</div>
                     <div className="ml-2 space-y-1">
                       <div>
-                        <span className="text-yellow-400 font-mono">uniform vec2 u_object{index}_pos;</span>
+                        <span className="text-yellow-400 font-mono">uniform vec2 {namedUniform(obj.name, 'pos')};</span>
                         <div className="text-gray-300 text-xs ml-2">Center position (0.0-1.0)</div>
                       </div>
                       <div>
-                        <span className="text-yellow-400 font-mono">uniform vec2 u_object{index}_size;</span>
+                        <span className="text-yellow-400 font-mono">uniform vec2 {namedUniform(obj.name, 'size')};</span>
                         <div className="text-gray-300 text-xs ml-2">Size (width, height) normalized</div>
                       </div>
                       <div>
-                        <span className="text-yellow-400 font-mono">uniform vec3 u_object{index}_color;</span>
+                        <span className="text-yellow-400 font-mono">uniform vec3 {namedUniform(obj.name, 'color')};</span>
                         <div className="text-gray-300 text-xs ml-2">RGB color (0.0-1.0)</div>
                       </div>
                       <div>
-                        <span className="text-yellow-400 font-mono">uniform float u_object{index}_rotation;</span>
+                        <span className="text-yellow-400 font-mono">uniform float {namedUniform(obj.name, 'rotation')};</span>
                         <div className="text-gray-300 text-xs ml-2">Rotation in degrees</div>
                       </div>
+                      <div className="text-gray-400 text-xs">Also u_object{index}_pos etc. by list position</div>
                     </div>
                   </div>
                 ))}
+                {objects.length === 0 && (
+                  <div className="text-gray-400 text-xs mb-2">Add an object to get named bindings</div>
+                )}
+                <div>
+                  <span className="text-yellow-400 font-mono">{OBJECT_STRUCT_DECLARATION}</span>
+                  <span className="block text-yellow-400 font-mono">uniform ObjectData u_objects[{MAX_OBJECTS}];</span>
+                  <span className="block text-yellow-400 font-mono">uniform int u_objectCount;</span>
+                  <div className="text-gray-300 text-xs ml-2">Every object, in list order, for shaders that loop over them</div>
+                </div>
               </div>
             </div>
           </div>
@@ -549,6 +1047,32 @@ export default function Sidebar(props: SidebarProps) {
           </div>
         </div>
       )}
+
+      <AudioPanel
+        mode={audioMode}
+        setMode={setAudioMode}
+        fileName={audioFileName}
+        onOpenFile={onOpenAudioFile}
+        monitor={audioMonitor}
+        setMonitor={setAudioMonitor}
+        audioStateRef={audioStateRef}
+      />
+
+      <LfoPanel
+        lfos={lfos}
+        shaders={shaders}
+        objects={objects}
+        addLfo={addLfo}
+        updateLfo={updateLfo}
+        deleteLfo={deleteLfo}
+      />
+
+      <SnippetLibrary
+        snippets={snippets}
+        addSnippet={addSnippet}
+        updateSnippet={updateSnippet}
+        deleteSnippet={deleteSnippet}
+      />
     </div>
   );
 } 
\ No newline at end of file
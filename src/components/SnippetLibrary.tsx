@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Plus, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { ShaderSnippet } from '../types';
+import { builtinSnippets } from '../shaders/snippets';
+import ShaderCodeEditor from './ShaderCodeEditor';
+
+interface SnippetLibraryProps {
+  snippets: ShaderSnippet[];
+  addSnippet: (snippet: ShaderSnippet) => void;
+  updateSnippet: (name: string, snippet: ShaderSnippet) => void;
+  deleteSnippet: (name: string) => void;
+}
+
+// The name goes between quotes in #include "name"
+const isValidSnippetName = (name: string) => /^[\w./-]+$/.test(name);
+
+export default function SnippetLibrary({ snippets, addSnippet, updateSnippet, deleteSnippet }: SnippetLibraryProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // Name of the snippet being edited, or '' for a new one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftCode, setDraftCode] = useState('');
+
+  const name = draftName.trim();
+  const nameTaken = snippets.some(snippet => snippet.name === name && snippet.name !== editing);
+  const shadowsBuiltin = builtinSnippets.some(snippet => snippet.name === name);
+  const canSave = isValidSnippetName(name) && !nameTaken;
+
+  const startEditing = (snippet?: ShaderSnippet) => {
+    setEditing(snippet?.name ?? '');
+    setDraftName(snippet?.name ?? '');
+    setDraftCode(snippet?.code ?? '');
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    setDraftName('');
+    setDraftCode('');
+  };
+
+  const saveSnippet = () => {
+    if (!canSave || editing === null) return;
+    if (editing) {
+      updateSnippet(editing, { name, code: draftCode });
+    } else {
+      addSnippet({ name, code: draftCode });
+    }
+    cancelEditing();
+  };
+
+  const renderEntry = (snippet: ShaderSnippet, description: string | null, isBuiltin: boolean) => {
+    const key = `${isBuiltin ? 'builtin' : 'user'}:${snippet.name}`;
+    const isOpen = expanded === key;
+    const overridden = isBuiltin && snippets.some(user => user.name === snippet.name);
+    return (
+      <div key={key} className={`p-2 bg-gray-700 rounded ${overridden ? 'opacity-50' : ''}`}>
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setExpanded(isOpen ? null : key)}
+            className="flex items-center gap-1 text-left font-mono text-sm hover:text-blue-300 transition-colors"
+          >
+            {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            #include "{snippet.name}"
+          </button>
+          {isBuiltin ? (
+            <span className="text-xs text-gray-400">{overridden ? 'overridden' : 'built-in'}</span>
+          ) : (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => startEditing(snippet)}
+                className="px-2 text-xs text-gray-300 hover:text-white hover:bg-gray-800 rounded transition-colors"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => deleteSnippet(snippet.name)}
+                className="p-1 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded transition-colors"
+                title="Delete snippet"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          )}
+        </div>
+        {description && <div className="text-xs text-gray-400 mt-1 ml-5">{description}</div>}
+        {isOpen && (
+          <pre className="mt-2 p-2 bg-gray-800 rounded text-xs font-mono text-gray-300 overflow-x-auto">{snippet.code}</pre>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold">Snippets</h3>
+        <button
+          onClick={() => startEditing()}
+          className="p-2 text-green-400 hover:text-green-300 hover:bg-green-900/20 rounded-lg transition-colors"
+          title="Add a snippet"
+        >
+          <Plus size={18} />
+        </button>
+      </div>
+      <div className="text-xs text-gray-400 mb-3 italic">
+        Shared GLSL for any shader. Each snippet is pulled in once, however often it's included
+      </div>
+
+      {editing !== null && (
+        <div className="mb-4 p-3 bg-gray-700 rounded-lg space-y-2">
+          <input
+            type="text"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            placeholder="Snippet name (e.g. 'palette')"
+            className="w-full p-2 bg-gray-600 rounded text-white font-mono text-sm placeholder-gray-400"
+          />
+          {name && !isValidSnippetName(name) && (
+            <div className="text-xs text-yellow-400">Use letters, digits and _ . / - only</div>
+          )}
+          {nameTaken && <div className="text-xs text-yellow-400">Another snippet already has this name</div>}
+          {shadowsBuiltin && !nameTaken && (
+            <div className="text-xs text-yellow-400">Replaces the built-in snippet of the same name in this project</div>
+          )}
+          <ShaderCodeEditor
+            value={draftCode}
+            onChange={setDraftCode}
+            errors={[]}
+            placeholder="GLSL functions, constants or declarations..."
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={saveSnippet}
+              disabled={!canSave}
+              className="flex-1 bg-green-600 hover:bg-green-500 disabled:bg-gray-600 disabled:cursor-not-allowed px-3 py-1 rounded transition-colors text-sm"
+            >
+              {editing ? 'Update Snippet' : 'Add Snippet'}
+            </button>
+            <button
+              onClick={cancelEditing}
+              className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded transition-colors text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {snippets.map(snippet => renderEntry(snippet, null, false))}
+        {builtinSnippets.map(snippet => renderEntry(snippet, snippet.description, true))}
+      </div>
+    </div>
+  );
+}
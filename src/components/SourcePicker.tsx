@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { Camera, ChevronDown, FolderOpen, Image, Link, Monitor, Video } from 'lucide-react';
+import { InputSource } from '../types';
+import { DEFAULT_SOURCE, createUrlSource, getSourceLabel } from '../utils/inputSources';
+
+interface SourcePickerProps {
+  source: InputSource;
+  onSelectSource: (source: InputSource) => void;
+  onOpenFile: (file: File) => void;
+}
+
+function SourceIcon({ source }: { source: InputSource }) {
+  if (source.kind === 'webcam') return <Camera size={16} />;
+  if (source.kind === 'screen') return <Monitor size={16} />;
+  return source.media === 'image' ? <Image size={16} /> : <Video size={16} />;
+}
+
+export default function SourcePicker({ source, onSelectSource, onOpenFile }: SourcePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const select = (next: InputSource) => {
+    onSelectSource(next);
+    setIsOpen(false);
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    select(createUrlSource(trimmed));
+    setUrl('');
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onOpenFile(file);
+      setIsOpen(false);
+    }
+    // Allow reopening the same file
+    e.target.value = '';
+  };
+
+  const optionClass = 'w-full flex items-center gap-2 px-3 py-2 rounded hover:bg-gray-600 transition-colors text-left';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm max-w-[14rem]"
+        title="Choose the input source"
+      >
+        <SourceIcon source={source} />
+        <span className="truncate">{getSourceLabel(source)}</span>
+        <ChevronDown size={14} className="shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-72 bg-gray-700 rounded-lg shadow-xl p-2 z-20 text-sm text-left">
+          <button onClick={() => fileInputRef.current?.click()} className={optionClass}>
+            <FolderOpen size={16} />
+            Open video or image file…
+          </button>
+          <button onClick={() => select({ kind: 'webcam' })} className={optionClass}>
+            <Camera size={16} />
+            Webcam
+          </button>
+          <button onClick={() => select({ kind: 'screen' })} className={optionClass}>
+            <Monitor size={16} />
+            Screen capture
+          </button>
+          <button onClick={() => select(DEFAULT_SOURCE)} className={optionClass}>
+            <Video size={16} />
+            Sample video
+          </button>
+
+          <form onSubmit={handleUrlSubmit} className="flex items-center gap-2 mt-2 pt-2 border-t border-gray-600">
+            <Link size={16} className="shrink-0 ml-3" />
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://…/video.mp4"
+              className="flex-1 min-w-0 p-1 bg-gray-800 rounded text-white"
+            />
+            <button type="submit" className="px-2 py-1 rounded bg-blue-600 hover:bg-blue-500 transition-colors">
+              Load
+            </button>
+          </form>
+          <div className="text-xs text-gray-400 px-3 mt-2">
+            You can also drop a video or image file on the canvas.
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="video/*,image/*"
+            onChange={handleFile}
+            className="hidden"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useCallback, useState } from 'react';
+import { CanvasObject, FrameClock, Shader } from '../types';
+import { canvasToBlob } from '../utils/frameEncoders';
+import { downloadBlob } from '../utils/download';
+
+type Frame = { shaders: Shader[]; objects: CanvasObject[] };
+
+interface StillExporterProps {
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  evaluateFrame: (timelineTime: number, time: number) => Frame;
+  captureFrame: (frame: Frame, clock: FrameClock, width: number, height: number) => ImageData | null;
+  getTimelineTime: () => number;
+  getClock: () => FrameClock;
+}
+
+export function useStillExporter({
+  canvasRef,
+  evaluateFrame,
+  captureFrame,
+  getTimelineTime,
+  getClock,
+}: StillExporterProps) {
+  const [isExportingStill, setIsExportingStill] = useState(false);
+  const [stillError, setStillError] = useState<string | null>(null);
+
+  // Re-render the current frame, objects included, at the requested size
+  const exportStill = useCallback(async (width: number, height: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    setIsExportingStill(true);
+    setStillError(null);
+
+    try {
+      // A re-render of the last frame, so the clock doesn't advance and u_frame isn't counted
+      const clock = { ...getClock(), deltaTime: 0 };
+      const frame = evaluateFrame(getTimelineTime(), clock.time);
+      const image = captureFrame(frame, clock, width, height);
+      if (!image) {
+        throw new Error('The renderer is not ready yet. Wait for the preview to appear and try again.');
+      }
+
+      const stillCanvas = document.createElement('canvas');
+      stillCanvas.width = width;
+      stillCanvas.height = height;
+      const ctx = stillCanvas.getContext('2d');
+      if (!ctx) throw new Error('Could not create an export canvas');
+
+      ctx.putImageData(image, 0, 0);
+
+      downloadBlob(await canvasToBlob(stillCanvas), `frame-${width}x${height}.png`);
+    } catch (e) {
+      console.error('Still export failed:', e);
+      setStillError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsExportingStill(false);
+    }
+  }, [canvasRef, evaluateFrame, captureFrame, getTimelineTime, getClock]);
+
+  return {
+    exportStill,
+    isExportingStill,
+    stillError,
+    clearStillError: () => setStillError(null),
+  };
+}
@@ -0,0 +1,76 @@
+import { useCallback, useRef } from 'react';
+import { ClockMode, FrameClock } from '../types';
+
+interface StudioClockProps {
+  mode: ClockMode;
+  isPlaying: boolean;
+  // Position and length of the source video, or null for stills, live sources and the fallback
+  getMediaTime: () => number | null;
+  getMediaDuration: () => number | null;
+  timelineDuration: number;
+}
+
+// currentTime only changes once per video frame, so between changes the clock runs
+// on from where the video was last seen, and re-syncs when the two drift apart
+const MEDIA_RESYNC_THRESHOLD = 0.1;
+
+export function useStudioClock(props: StudioClockProps) {
+  // Read at tick time, so the render loop doesn't restart when they change
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  const openedAtRef = useRef(performance.now());
+  // Seconds played so far, for sources without a media time
+  const projectTimeRef = useRef(0);
+  // When the last frame was ticked while playing
+  const lastTickRef = useRef<number | null>(null);
+  const mediaAnchorRef = useRef<{ media: number; at: number } | null>(null);
+  const clockRef = useRef<FrameClock>({ time: 0, deltaTime: 0, duration: props.timelineDuration });
+
+  const getDuration = useCallback(() => {
+    const { getMediaDuration, timelineDuration } = propsRef.current;
+    return getMediaDuration() ?? timelineDuration;
+  }, []);
+
+  // Advance the clock for a live frame. Paused frames repeat the last time, except
+  // in wall mode, and always have a deltaTime of 0.
+  const tick = useCallback((): FrameClock => {
+    const { mode, isPlaying, getMediaTime } = propsRef.current;
+    const now = performance.now();
+    const elapsed = isPlaying && lastTickRef.current !== null ? (now - lastTickRef.current) / 1000 : 0;
+    lastTickRef.current = isPlaying ? now : null;
+    projectTimeRef.current += elapsed;
+
+    const previous = clockRef.current.time;
+    let time: number;
+    if (mode === 'wall') {
+      time = (now - openedAtRef.current) / 1000;
+    } else {
+      const media = getMediaTime();
+      const anchor = mediaAnchorRef.current;
+      if (media === null) {
+        mediaAnchorRef.current = null;
+        time = projectTimeRef.current;
+      } else if (!isPlaying || !anchor || Math.abs(anchor.media + (now - anchor.at) / 1000 - media) > MEDIA_RESYNC_THRESHOLD) {
+        mediaAnchorRef.current = { media, at: now };
+        time = media;
+      } else {
+        time = Math.min(anchor.media + (now - anchor.at) / 1000, getDuration());
+      }
+    }
+
+    // A looping video jumps back to 0, which counts as no time passing
+    const deltaTime = isPlaying ? Math.max(0, mode === 'wall' ? elapsed : time - previous) : 0;
+    clockRef.current = { time, deltaTime, duration: getDuration() };
+    return clockRef.current;
+  }, [getDuration]);
+
+  // The clock of the last live frame, e.g. to re-render it at another size
+  const getClock = useCallback(() => clockRef.current, []);
+
+  return {
+    tick,
+    getClock,
+    getDuration,
+  };
+}
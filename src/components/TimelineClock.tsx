@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+interface TimelineClockProps {
+  duration: number;
+  isPlaying: boolean;
+}
+
+export function useTimelineClock({ duration, isPlaying }: TimelineClockProps) {
+  // Time accumulated up to the last play/pause/seek, plus when playback last resumed
+  const baseTimeRef = useRef(0);
+  const startedAtRef = useRef<number | null>(null);
+  const durationRef = useRef(duration);
+
+  durationRef.current = duration;
+
+  // Stable across renders so the render loop doesn't restart when duration changes
+  const getTime = useCallback(() => {
+    if (durationRef.current <= 0) return 0;
+    // Paused or seeked positions hold, so the end stays on the last frame; only playback loops
+    if (startedAtRef.current === null) return Math.min(baseTimeRef.current, durationRef.current);
+    const elapsed = (performance.now() - startedAtRef.current) / 1000;
+    return (baseTimeRef.current + elapsed) % durationRef.current;
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    baseTimeRef.current = Math.max(0, Math.min(time, durationRef.current));
+    if (startedAtRef.current !== null) {
+      startedAtRef.current = performance.now();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isPlaying) {
+      startedAtRef.current = performance.now();
+    } else {
+      baseTimeRef.current = getTime();
+      startedAtRef.current = null;
+    }
+  }, [isPlaying, getTime]);
+
+  return {
+    getTime,
+    seek,
+  };
+}
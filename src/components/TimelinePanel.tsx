@@ -0,0 +1,369 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, Trash2, Diamond } from 'lucide-react';
+import { AnimationTarget, AnimationTrack, CanvasObject, ClockMode, EasingType, Keyframe, Shader, Timeline } from '../types';
+import {
+  ANIMATABLE_OBJECT_PROPERTIES,
+  ANIMATABLE_UNIFORM_TYPES,
+  DEFAULT_BEZIER,
+  EASING_TYPES,
+  getTargetLabel,
+  getTargetValue,
+  isSameTarget,
+} from '../utils/animation';
+
+interface TimelinePanelProps {
+  timeline: Timeline;
+  shaders: Shader[];
+  objects: CanvasObject[];
+  getTime: () => number;
+  seek: (time: number) => void;
+  isPlaying: boolean;
+  updateTimeline: (updater: (prev: Timeline) => Timeline, mergeKey?: string) => void;
+  clockMode: ClockMode;
+  setClockMode: (mode: ClockMode) => void;
+}
+
+// Serialize targets for use as <option> values
+const encodeTarget = (target: AnimationTarget) => JSON.stringify(target);
+
+export default function TimelinePanel({
+  timeline,
+  shaders,
+  objects,
+  getTime,
+  seek,
+  isPlaying,
+  updateTimeline,
+  clockMode,
+  setClockMode,
+}: TimelinePanelProps) {
+  const [time, setTime] = useState(0);
+  const [selectedKeyframe, setSelectedKeyframe] = useState<{ trackId: string; keyframeId: string } | null>(null);
+  const rulerRef = useRef<HTMLDivElement>(null);
+  const isScrubbingRef = useRef(false);
+
+  // Follow the clock for the playhead without re-rendering the whole studio.
+  // While paused the time only moves on seeks, which update it themselves, and
+  // when a shorter duration wraps it
+  useEffect(() => {
+    if (!isPlaying) {
+      setTime(getTime());
+      return;
+    }
+    let frameId: number;
+    const tick = () => {
+      setTime(getTime());
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [getTime, isPlaying, timeline.duration]);
+
+  const seekTo = (target: number) => {
+    seek(target);
+    setTime(getTime());
+  };
+
+  const availableTargets = useMemo(() => {
+    const targets: AnimationTarget[] = [];
+    shaders.forEach(shader => {
+      Object.entries(shader.uniformSchema).forEach(([uniform, descriptor]) => {
+        if (ANIMATABLE_UNIFORM_TYPES.includes(descriptor.type)) {
+          targets.push({ kind: 'uniform', shaderId: shader.id, uniform });
+        }
+      });
+    });
+    objects.forEach(obj => {
+      ANIMATABLE_OBJECT_PROPERTIES.forEach(property => {
+        targets.push({ kind: 'object', objectId: obj.id, property });
+      });
+    });
+    return targets.filter(target => !timeline.tracks.some(track => isSameTarget(track.target, target)));
+  }, [shaders, objects, timeline.tracks]);
+
+  const seekFromPointer = (clientX: number) => {
+    const ruler = rulerRef.current;
+    if (!ruler) return;
+    const rect = ruler.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    seekTo(ratio * timeline.duration);
+  };
+
+  const handleRulerPointerDown = (e: React.PointerEvent) => {
+    isScrubbingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    seekFromPointer(e.clientX);
+  };
+
+  const handleRulerPointerMove = (e: React.PointerEvent) => {
+    if (isScrubbingRef.current) {
+      seekFromPointer(e.clientX);
+    }
+  };
+
+  const addTrack = (encoded: string) => {
+    if (!encoded) return;
+    const target = JSON.parse(encoded) as AnimationTarget;
+    const track: AnimationTrack = { id: Date.now().toString(), target, keyframes: [] };
+    updateTimeline(prev => ({ ...prev, tracks: [...prev.tracks, track] }));
+  };
+
+  const deleteTrack = (trackId: string) => {
+    updateTimeline(prev => ({ ...prev, tracks: prev.tracks.filter(track => track.id !== trackId) }));
+  };
+
+  const updateTrack = (trackId: string, updater: (track: AnimationTrack) => AnimationTrack, mergeKey?: string) => {
+    updateTimeline(prev => ({
+      ...prev,
+      tracks: prev.tracks.map(track => (track.id === trackId ? updater(track) : track)),
+    }), mergeKey);
+  };
+
+  // Record the target's current value at the playhead, replacing a keyframe already there
+  const addKeyframe = (track: AnimationTrack) => {
+    const value = getTargetValue(track.target, shaders, objects);
+    if (!value) return;
+
+    const keyTime = Math.round(getTime() * 100) / 100;
+    const existing = track.keyframes.find(keyframe => Math.abs(keyframe.time - keyTime) < 0.01);
+    const keyframe: Keyframe = existing
+      ? { ...existing, value }
+      : { id: Date.now().toString(), time: keyTime, value, easing: 'linear' };
+
+    updateTrack(track.id, prev => ({
+      ...prev,
+      keyframes: [...prev.keyframes.filter(k => k.id !== keyframe.id), keyframe].sort((a, b) => a.time - b.time),
+    }));
+    setSelectedKeyframe({ trackId: track.id, keyframeId: keyframe.id });
+  };
+
+  const updateKeyframe = (trackId: string, keyframeId: string, updates: Partial<Keyframe>) => {
+    updateTrack(trackId, track => ({
+      ...track,
+      keyframes: track.keyframes
+        .map(keyframe => (keyframe.id === keyframeId ? { ...keyframe, ...updates } : keyframe))
+        .sort((a, b) => a.time - b.time),
+    }), `keyframe:${keyframeId}:${Object.keys(updates).sort().join(',')}`);
+  };
+
+  const deleteKeyframe = (trackId: string, keyframeId: string) => {
+    updateTrack(trackId, track => ({
+      ...track,
+      keyframes: track.keyframes.filter(keyframe => keyframe.id !== keyframeId),
+    }));
+    setSelectedKeyframe(null);
+  };
+
+  const selectedTrack = timeline.tracks.find(track => track.id === selectedKeyframe?.trackId);
+  const activeKeyframe = selectedTrack?.keyframes.find(keyframe => keyframe.id === selectedKeyframe?.keyframeId);
+  const playheadPercent = timeline.duration > 0 ? (time / timeline.duration) * 100 : 0;
+
+  return (
+    <div className="bg-gray-800 border-t border-gray-700 p-4 text-left text-sm max-h-72 overflow-y-auto">
+      <div className="flex items-center gap-4 mb-3">
+        <h3 className="font-semibold text-base">Timeline</h3>
+        <span className="font-mono text-gray-300">
+          {time.toFixed(2)}s / {timeline.duration.toFixed(2)}s
+        </span>
+        <label className="flex items-center gap-2 text-gray-300">
+          Duration
+          <input
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={timeline.duration}
+            onChange={(e) => {
+              const duration = parseFloat(e.target.value);
+              if (duration > 0) {
+                updateTimeline(prev => ({ ...prev, duration }), 'timeline:duration');
+              }
+            }}
+            className="w-20 p-1 bg-gray-700 rounded text-white"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-gray-300">
+          u_time
+          <select
+            value={clockMode}
+            onChange={(e) => setClockMode(e.target.value as ClockMode)}
+            className="p-1 bg-gray-700 rounded text-white"
+            title="Media time follows the source video and stops when paused; wall time keeps running"
+          >
+            <option value="media">Media time</option>
+            <option value="wall">Wall clock</option>
+          </select>
+        </label>
+        <select
+          value=""
+          onChange={(e) => addTrack(e.target.value)}
+          className="ml-auto p-1 bg-gray-700 rounded text-white max-w-xs"
+        >
+          <option value="">+ Add track…</option>
+          {availableTargets.map(target => (
+            <option key={encodeTarget(target)} value={encodeTarget(target)}>
+              {getTargetLabel(target, shaders, objects)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex">
+        <div className="w-56 shrink-0" />
+        <div
+          ref={rulerRef}
+          className="relative flex-1 h-6 bg-gray-700 rounded cursor-pointer select-none"
+          onPointerDown={handleRulerPointerDown}
+          onPointerMove={handleRulerPointerMove}
+          onPointerUp={() => { isScrubbingRef.current = false; }}
+        >
+          {Array.from({ length: Math.floor(timeline.duration) + 1 }, (_, second) => (
+            <span
+              key={second}
+              className="absolute top-0 text-[10px] text-gray-400 border-l border-gray-500 pl-0.5 h-full"
+              style={{ left: `${(second / timeline.duration) * 100}%` }}
+            >
+              {second}
+            </span>
+          ))}
+          <div className="absolute top-0 bottom-0 w-0.5 bg-red-500" style={{ left: `${playheadPercent}%` }} />
+        </div>
+      </div>
+
+      <div className="mt-2 space-y-1">
+        {timeline.tracks.map(track => (
+          <div key={track.id} className="flex items-center">
+            <div className="w-56 shrink-0 flex items-center gap-1 pr-2">
+              <span className="flex-1 truncate text-gray-200" title={getTargetLabel(track.target, shaders, objects)}>
+                {getTargetLabel(track.target, shaders, objects)}
+              </span>
+              <button
+                onClick={() => addKeyframe(track)}
+                className="p-1 text-green-400 hover:text-green-300 hover:bg-green-900/20 rounded"
+                title="Add keyframe at playhead"
+              >
+                <Plus size={14} />
+              </button>
+              <button
+                onClick={() => deleteTrack(track.id)}
+                className="p-1 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded"
+                title="Delete track"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <div className="relative flex-1 h-6 bg-gray-900 rounded">
+              <div className="absolute top-0 bottom-0 w-0.5 bg-red-500/50" style={{ left: `${playheadPercent}%` }} />
+              {track.keyframes.map(keyframe => {
+                const isSelected = selectedKeyframe?.keyframeId === keyframe.id;
+                return (
+                  <button
+                    key={keyframe.id}
+                    onClick={() => {
+                      setSelectedKeyframe({ trackId: track.id, keyframeId: keyframe.id });
+                      seekTo(keyframe.time);
+                    }}
+                    className={`absolute top-1 -ml-2 ${isSelected ? 'text-yellow-300' : 'text-blue-400 hover:text-blue-300'}`}
+                    style={{ left: `${(keyframe.time / timeline.duration) * 100}%` }}
+                    title={`${keyframe.time.toFixed(2)}s • ${keyframe.easing}`}
+                  >
+                    <Diamond size={14} fill="currentColor" />
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+        {timeline.tracks.length === 0 && (
+          <div className="text-gray-400 italic py-2">
+            Add a track, move the playhead and press + to record the current value as a keyframe
+          </div>
+        )}
+      </div>
+
+      {selectedTrack && activeKeyframe && (
+        <div className="mt-3 p-3 bg-gray-700 rounded-lg flex flex-wrap items-center gap-3">
+          <span className="text-blue-300 font-semibold">Keyframe</span>
+          <label className="flex items-center gap-1">
+            Time
+            <input
+              type="number"
+              min={0}
+              max={timeline.duration}
+              step={0.01}
+              value={activeKeyframe.time}
+              onChange={(e) => updateKeyframe(selectedTrack.id, activeKeyframe.id, {
+                time: Math.min(timeline.duration, Math.max(0, parseFloat(e.target.value) || 0)),
+              })}
+              className="w-20 p-1 bg-gray-600 rounded text-white"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Value
+            {activeKeyframe.value.map((component, i) => (
+              <input
+                key={i}
+                type="number"
+                step={0.01}
+                value={component}
+                onChange={(e) => {
+                  const value = [...activeKeyframe.value];
+                  value[i] = parseFloat(e.target.value) || 0;
+                  updateKeyframe(selectedTrack.id, activeKeyframe.id, { value });
+                }}
+                className="w-20 p-1 bg-gray-600 rounded text-white"
+              />
+            ))}
+          </label>
+          <label className="flex items-center gap-1">
+            Easing
+            <select
+              value={activeKeyframe.easing}
+              onChange={(e) => {
+                const easing = e.target.value as EasingType;
+                updateKeyframe(selectedTrack.id, activeKeyframe.id, {
+                  easing,
+                  bezier: easing === 'bezier' ? activeKeyframe.bezier ?? DEFAULT_BEZIER : activeKeyframe.bezier,
+                });
+              }}
+              className="p-1 bg-gray-600 rounded text-white"
+            >
+              {EASING_TYPES.map(easing => (
+                <option key={easing} value={easing}>{easing}</option>
+              ))}
+            </select>
+          </label>
+          {activeKeyframe.easing === 'bezier' && (
+            <label className="flex items-center gap-1" title="cubic-bezier(x1, y1, x2, y2)">
+              Curve
+              {(activeKeyframe.bezier ?? DEFAULT_BEZIER).map((component, i) => (
+                <input
+                  key={i}
+                  type="number"
+                  step={0.05}
+                  min={i % 2 === 0 ? 0 : undefined}
+                  max={i % 2 === 0 ? 1 : undefined}
+                  value={component}
+                  onChange={(e) => {
+                    const bezier: [number, number, number, number] = [...(activeKeyframe.bezier ?? DEFAULT_BEZIER)];
+                    const parsed = parseFloat(e.target.value) || 0;
+                    // The x control points must stay within [0, 1] for the curve to be a function of time
+                    bezier[i] = i % 2 === 0 ? Math.min(1, Math.max(0, parsed)) : parsed;
+                    updateKeyframe(selectedTrack.id, activeKeyframe.id, { bezier });
+                  }}
+                  className="w-16 p-1 bg-gray-600 rounded text-white"
+                />
+              ))}
+            </label>
+          )}
+          <button
+            onClick={() => deleteKeyframe(selectedTrack.id, activeKeyframe.id)}
+            className="ml-auto p-1 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded"
+            title="Delete keyframe"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { UniformDescriptor, UniformValue } from '../types';
+import {
+  getStepPrecision,
+  getVectorSize,
+  normalizeUniformValue,
+  rgbToHex,
+  hexToRgb,
+} from '../utils/uniforms';
+
+interface UniformControlProps {
+  name: string;
+  descriptor: UniformDescriptor;
+  value: UniformValue | undefined;
+  onChange: (value: UniformValue) => void;
+}
+
+const COMPONENT_LABELS = ['X', 'Y', 'Z', 'W'];
+
+interface SliderProps {
+  label?: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+function UniformSlider({ label, value, min, max, step, onChange }: SliderProps) {
+  const precision = getStepPrecision(step);
+
+  return (
+    <div className="mb-2">
+      {label && <div className="text-xs text-gray-400 mb-1">{label}</div>}
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+      />
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{min.toFixed(precision)}</span>
+        <span className="font-medium">{value.toFixed(precision)}</span>
+        <span>{max.toFixed(precision)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function UniformControl({ name, descriptor, value, onChange }: UniformControlProps) {
+  const current = normalizeUniformValue(descriptor, value);
+  const isInt = descriptor.type === 'int';
+  const min = descriptor.min ?? 0;
+  const max = descriptor.max ?? (isInt ? 10 : 1);
+  const step = descriptor.step ?? (isInt ? 1 : 0.01);
+
+  const renderControl = () => {
+    switch (descriptor.type) {
+      case 'bool':
+        return (
+          <label className="flex items-center gap-2 cursor-pointer text-sm">
+            <input
+              type="checkbox"
+              checked={current as boolean}
+              onChange={(e) => onChange(e.target.checked)}
+              className="w-4 h-4 rounded"
+            />
+            <span>{current ? 'On' : 'Off'}</span>
+          </label>
+        );
+
+      case 'enum':
+        return (
+          <select
+            value={current as number}
+            onChange={(e) => onChange(parseInt(e.target.value))}
+            className="w-full p-2 bg-gray-600 rounded text-white text-sm"
+          >
+            {(descriptor.options ?? []).map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+
+      case 'color':
+        return (
+          <input
+            type="color"
+            value={rgbToHex(current as number[])}
+            onChange={(e) => onChange(hexToRgb(e.target.value))}
+            className="w-full p-1 bg-gray-600 rounded"
+          />
+        );
+
+      case 'vec2':
+      case 'vec3':
+      case 'vec4': {
+        const components = current as number[];
+        return Array.from({ length: getVectorSize(descriptor.type) }, (_, i) => (
+          <UniformSlider
+            key={i}
+            label={COMPONENT_LABELS[i]}
+            value={components[i]}
+            min={min}
+            max={max}
+            step={step}
+            onChange={(component) => {
+              const next = [...components];
+              next[i] = component;
+              onChange(next);
+            }}
+          />
+        ));
+      }
+
+      default:
+        return (
+          <UniformSlider
+            value={current as number}
+            min={min}
+            max={max}
+            step={step}
+            onChange={(next) => onChange(isInt ? Math.round(next) : next)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="mb-3">
+      <label className="block text-sm font-medium text-gray-300 mb-2" title={name}>
+        {descriptor.label.toUpperCase()}
+      </label>
+      {renderControl()}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useRef, useState } from 'react';
+import { InputSource } from '../types';
 
 // Declare the global window property for our custom property
 declare global {
@@ -8,44 +9,45 @@ declare global {
 }
 
 interface VideoCanvasRendererProps {
-  videoUrl: string;
+  source: InputSource;
   isPlaying: boolean;
   setIsVideoLoaded: (loaded: boolean) => void;
-  canvasRef?: React.RefObject<HTMLCanvasElement>; // Make canvasRef optional since we're not using it
+  onSourceError: (message: string) => void;
 }
 
+const FALLBACK_WIDTH = 800;
+const FALLBACK_HEIGHT = 450;
+// How long an export waits for a seek before giving up on the video
+const SEEK_TIMEOUT_MS = 5000;
+
 export function useVideoCanvasRenderer({
-  videoUrl,
+  source,
   isPlaying,
   setIsVideoLoaded,
+  onSourceError,
 }: VideoCanvasRendererProps) {
-  // These refs are kept for potential future MSE implementation
   const videoElementRef = useRef<HTMLVideoElement | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const fallbackFrameRef = useRef<number | null>(null);
   const offscreenCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const offscreenCtxRef = useRef<CanvasRenderingContext2D | null>(null);
+  const onSourceErrorRef = useRef(onSourceError);
+  onSourceErrorRef.current = onSourceError;
 
   // Track if we're using the fallback animation
   const [usingFallback, setUsingFallback] = useState(false);
   // Track if video is actually ready to play
   const [videoReady, setVideoReady] = useState(false);
+  // Native size of the current source, which the offscreen canvas matches
+  const [sourceSize, setSourceSize] = useState({ width: FALLBACK_WIDTH, height: FALLBACK_HEIGHT });
+  // The loaded video element, for routing its soundtrack to the audio analyser
+  const [loadedVideo, setLoadedVideo] = useState<HTMLVideoElement | null>(null);
 
-  // Initialize video rendering
-  useEffect(() => {
-    let isMounted = true;
-
-    // Create an offscreen video element (not added to DOM)
-    const videoElement = document.createElement('video');
-    videoElement.muted = true;
-    videoElement.loop = true;
-    videoElement.crossOrigin = 'anonymous';
-    videoElement.preload = 'auto'; // Ensure video preloads
-    videoElementRef.current = videoElement;
-
-    // Create an offscreen canvas for video processing
+  // The offscreen canvas outlives source switches, so the renderer keeps one texture input
+  if (!offscreenCanvasRef.current) {
     const offscreenCanvas = document.createElement('canvas');
-    offscreenCanvas.width = 800;
-    offscreenCanvas.height = 450;
+    offscreenCanvas.width = FALLBACK_WIDTH;
+    offscreenCanvas.height = FALLBACK_HEIGHT;
     offscreenCanvasRef.current = offscreenCanvas;
     offscreenCtxRef.current = offscreenCanvas.getContext('2d');
 
@@ -54,46 +56,127 @@ export function useVideoCanvasRenderer({
       offscreenCtxRef.current.fillStyle = 'black';
       offscreenCtxRef.current.fillRect(0, 0, offscreenCanvas.width, offscreenCanvas.height);
     }
+  }
 
-    // Set up event listeners before setting src
-    videoElement.onloadeddata = () => {
-      if (!isMounted) return;
+  const resizeOffscreenCanvas = (width: number, height: number) => {
+    const offscreenCanvas = offscreenCanvasRef.current;
+    if (!offscreenCanvas || width <= 0 || height <= 0) return;
+    if (offscreenCanvas.width === width && offscreenCanvas.height === height) return;
 
-      console.log('Video loaded successfully');
-      setVideoReady(true);
+    offscreenCanvas.width = width;
+    offscreenCanvas.height = height;
+    setSourceSize({ width, height });
+  };
 
-      // Draw the first frame immediately
-      if (offscreenCtxRef.current) {
-        offscreenCtxRef.current.drawImage(videoElement, 0, 0, offscreenCanvas.width, offscreenCanvas.height);
-        console.log('First video frame drawn to offscreen canvas');
-      }
+  // Copy the current frame of a video or image at its native size
+  const drawSourceFrame = (media: HTMLVideoElement | HTMLImageElement) => {
+    const offscreenCtx = offscreenCtxRef.current;
+    if (!offscreenCtx) return;
 
-      setIsVideoLoaded(true);
-
-      // Start playing and rendering if needed
-      if (isPlaying && !usingFallback) {
-        console.log('Auto-playing video after load');
-        videoElement.play()
-          .then(() => {
-            if (isMounted) startRendering();
-          })
-          .catch(err => {
-            console.error('Error auto-playing video after load:', err);
-          });
-      }
-    };
+    if (media instanceof HTMLVideoElement) {
+      resizeOffscreenCanvas(media.videoWidth, media.videoHeight);
+    } else {
+      resizeOffscreenCanvas(media.naturalWidth, media.naturalHeight);
+    }
+    offscreenCtx.drawImage(media, 0, 0, offscreenCtx.canvas.width, offscreenCtx.canvas.height);
+  };
+
+  const stopFallbackAnimation = () => {
+    if (fallbackFrameRef.current) {
+      cancelAnimationFrame(fallbackFrameRef.current);
+      fallbackFrameRef.current = null;
+    }
+  };
+
+  // Load the selected source
+  useEffect(() => {
+    let isMounted = true;
+    let stream: MediaStream | null = null;
+    let imageElement: HTMLImageElement | null = null;
+
+    setVideoReady(false);
+    setUsingFallback(false);
+    setIsVideoLoaded(false);
+    setLoadedVideo(null);
+    stopFallbackAnimation();
 
-    videoElement.onerror = (e) => {
+    const fail = (message: string, error?: unknown) => {
       if (!isMounted) return;
 
-      console.error('Video failed to load:', e);
+      console.error(message, error);
+      onSourceErrorRef.current(message);
       console.log('Creating fallback content');
-      setUsingFallback(true);
       createFallbackAnimation();
     };
 
-    // Set the source last, after all event handlers are in place
-    videoElement.src = videoUrl;
+    if ((source.kind === 'url' || source.kind === 'file') && source.media === 'image') {
+      imageElement = new Image();
+      imageElement.crossOrigin = 'anonymous';
+      imageElement.onload = () => {
+        if (!isMounted || !imageElement) return;
+
+        console.log('Image loaded successfully');
+        drawSourceFrame(imageElement);
+        setIsVideoLoaded(true);
+      };
+      imageElement.onerror = (e) => fail('Could not load the image. Check the URL or try another file.', e);
+      imageElement.src = source.url;
+    } else {
+      // Create an offscreen video element (not added to DOM)
+      const videoElement = document.createElement('video');
+      videoElement.muted = true;
+      videoElement.playsInline = true;
+      videoElement.crossOrigin = 'anonymous';
+      videoElement.preload = 'auto'; // Ensure video preloads
+      videoElementRef.current = videoElement;
+
+      // Set up event listeners before setting src
+      videoElement.onloadeddata = () => {
+        if (!isMounted) return;
+
+        console.log('Video loaded successfully');
+        setVideoReady(true);
+
+        // Draw the first frame immediately
+        drawSourceFrame(videoElement);
+        console.log('First video frame drawn to offscreen canvas');
+
+        setLoadedVideo(videoElement);
+        setIsVideoLoaded(true);
+      };
+
+      videoElement.onerror = (e) => fail('Could not load the video. Check the URL or try another file.', e);
+
+      if (source.kind === 'url' || source.kind === 'file') {
+        videoElement.loop = true;
+        // Set the source last, after all event handlers are in place
+        videoElement.src = source.url;
+      } else {
+        const request = source.kind === 'webcam'
+          ? navigator.mediaDevices?.getUserMedia({ video: true, audio: false })
+          : navigator.mediaDevices?.getDisplayMedia({ video: true, audio: false });
+        const label = source.kind === 'webcam' ? 'the webcam' : 'screen capture';
+
+        if (!request) {
+          fail(`This browser can't access ${label}.`);
+        } else {
+          request
+            .then(mediaStream => {
+              if (!isMounted) {
+                mediaStream.getTracks().forEach(track => track.stop());
+                return;
+              }
+              stream = mediaStream;
+              // The user can end a capture from the browser UI at any time
+              mediaStream.getVideoTracks()[0]?.addEventListener('ended', () => {
+                if (isMounted) onSourceErrorRef.current(`Capture from ${label} ended.`);
+              });
+              videoElement.srcObject = mediaStream;
+            })
+            .catch(err => fail(`Could not start ${label}: ${err instanceof Error ? err.message : String(err)}`, err));
+        }
+      }
+    }
 
     return () => {
       isMounted = false;
@@ -102,17 +185,27 @@ export function useVideoCanvasRenderer({
         cancelAnimationFrame(animationFrameRef.current);
         animationFrameRef.current = null;
       }
+      stopFallbackAnimation();
+
+      stream?.getTracks().forEach(track => track.stop());
+
+      if (imageElement) {
+        imageElement.onload = null;
+        imageElement.onerror = null;
+        imageElement.src = '';
+      }
 
       if (videoElementRef.current) {
         videoElementRef.current.onloadeddata = null;
         videoElementRef.current.onerror = null;
         videoElementRef.current.pause();
-        videoElementRef.current.src = '';
+        videoElementRef.current.srcObject = null;
+        videoElementRef.current.removeAttribute('src');
         videoElementRef.current.load();
         videoElementRef.current = null;
       }
     };
-  }, [videoUrl, setIsVideoLoaded]);
+  }, [source, setIsVideoLoaded]);
 
   // Handle play/pause separately from initialization
   useEffect(() => {
@@ -152,12 +245,11 @@ export function useVideoCanvasRenderer({
 
     const renderFrame = () => {
       const videoElement = videoElementRef.current;
-      const offscreenCanvas = offscreenCanvasRef.current;
-      const offscreenCtx = offscreenCtxRef.current;
 
-      if (videoElement && offscreenCanvas && offscreenCtx) {
-        // Draw the current video frame to the offscreen canvas
-        offscreenCtx.drawImage(videoElement, 0, 0, offscreenCanvas.width, offscreenCanvas.height);
+      if (videoElement) {
+        // Draw the current video frame to the offscreen canvas. Captures can change
+        // size mid-stream, so this also tracks the native size.
+        drawSourceFrame(videoElement);
 
         // Log once to confirm video is being rendered to offscreen canvas
         if (!window.hasLoggedVideoFrame) {
@@ -173,15 +265,14 @@ export function useVideoCanvasRenderer({
   };
 
   const createFallbackAnimation = () => {
-    const canvas = offscreenCanvasRef.current;
     const ctx = offscreenCtxRef.current;
-
-    if (!canvas || !ctx) return;
+    if (!ctx) return;
 
     console.log('Starting fallback animation');
     setUsingFallback(true);
+    stopFallbackAnimation();
+    resizeOffscreenCanvas(FALLBACK_WIDTH, FALLBACK_HEIGHT);
 
-    let animationId: number;
     const animate = () => {
       const time = Date.now() / 1000;
       const gradient = ctx.createLinearGradient(
@@ -195,7 +286,7 @@ export function useVideoCanvasRenderer({
       gradient.addColorStop(1, `hsl(${(time * 40 + 240) % 360}, 70%, 60%)`);
 
       ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, 800, 450);
+      ctx.fillRect(0, 0, FALLBACK_WIDTH, FALLBACK_HEIGHT);
 
       // Add some moving shapes
       for (let i = 0; i < 5; i++) {
@@ -209,17 +300,11 @@ export function useVideoCanvasRenderer({
         ctx.fill();
       }
 
-      animationId = requestAnimationFrame(animate);
+      fallbackFrameRef.current = requestAnimationFrame(animate);
     };
     animate();
 
     setIsVideoLoaded(true);
-
-    return () => {
-      if (animationId) {
-        cancelAnimationFrame(animationId);
-      }
-    };
   };
 
   // Method to get the current video frame as ImageData
@@ -237,8 +322,66 @@ export function useVideoCanvasRenderer({
     return offscreenCanvasRef.current;
   };
 
+  // Duration of the source video in seconds, or null for images, live captures and the fallback animation
+  const getVideoDuration = (): number | null => {
+    const videoElement = videoElementRef.current;
+    if (usingFallback || !videoReady || !videoElement || !Number.isFinite(videoElement.duration)) return null;
+    return videoElement.duration;
+  };
+
+  // Playback position of the source video, or null whenever getVideoDuration is
+  const getVideoTime = (): number | null => {
+    const videoElement = videoElementRef.current;
+    return videoElement && getVideoDuration() !== null ? videoElement.currentTime : null;
+  };
+
+  // Seek the video and copy that exact frame to the offscreen canvas (used by offline export).
+  // Resolves to false if the frame at `time` can't be reproduced: live captures and the
+  // fallback animation keep showing whatever they have. Images are the same at any time.
+  const seekVideoFrame = async (time: number): Promise<boolean> => {
+    const videoElement = videoElementRef.current;
+    const duration = getVideoDuration();
+
+    if (!usingFallback && (source.kind === 'url' || source.kind === 'file') && source.media === 'image') return true;
+    if (!videoElement || duration === null) return false;
+
+    const target = time % duration;
+    if (Math.abs(videoElement.currentTime - target) > 1e-4 || videoElement.seeking) {
+      await new Promise<void>((resolve, reject) => {
+        const cleanUp = () => {
+          clearTimeout(timeoutId);
+          videoElement.removeEventListener('seeked', onSeeked);
+          videoElement.removeEventListener('error', onError);
+        };
+        const onSeeked = () => {
+          cleanUp();
+          resolve();
+        };
+        const onError = () => {
+          cleanUp();
+          reject(new Error(`Could not seek the video to ${target.toFixed(2)}s: ${videoElement.error?.message || 'the video failed to load'}`));
+        };
+        const timeoutId = setTimeout(() => {
+          cleanUp();
+          reject(new Error(`Seeking the video to ${target.toFixed(2)}s timed out.`));
+        }, SEEK_TIMEOUT_MS);
+        videoElement.addEventListener('seeked', onSeeked);
+        videoElement.addEventListener('error', onError);
+        videoElement.currentTime = target;
+      });
+    }
+
+    drawSourceFrame(videoElement);
+    return true;
+  };
+
   return {
     getCurrentFrame,
-    getVideoCanvas
+    getVideoCanvas,
+    getVideoDuration,
+    getVideoTime,
+    seekVideoFrame,
+    sourceSize,
+    videoElement: loadedVideo,
   };
 }
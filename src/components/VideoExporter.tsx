@@ -0,0 +1,131 @@
+import { useCallback, useRef, useState } from 'react';
+import { CanvasObject, FrameClock, Shader } from '../types';
+import { FrameSink, VideoExportFormat, createPngSequenceSink, createWebMSink } from '../utils/frameEncoders';
+import { downloadBlob } from '../utils/download';
+
+export interface VideoExportOptions {
+  format: VideoExportFormat;
+  fps: number;
+  duration: number;
+}
+
+export interface ExportProgress {
+  current: number;
+  total: number;
+}
+
+type Frame = { shaders: Shader[]; objects: CanvasObject[] };
+
+interface VideoExporterProps {
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  evaluateFrame: (timelineTime: number, time: number) => Frame;
+  drawFrame: (frame: Frame, clock: FrameClock) => boolean;
+  seekVideoFrame: (time: number) => Promise<boolean>;
+  clearFeedback: () => void;
+  timelineDuration: number;
+  // What u_duration reads: the source video's length, or the timeline's
+  getClockDuration: () => number;
+  isPlaying: boolean;
+  setIsPlaying: (playing: boolean) => void;
+  // Set for the whole export, so live render() calls draw nothing in between
+  isExportingRef: React.MutableRefObject<boolean>;
+}
+
+class ExportCancelledError extends Error {}
+
+export function useVideoExporter({
+  canvasRef,
+  evaluateFrame,
+  drawFrame,
+  seekVideoFrame,
+  clearFeedback,
+  timelineDuration,
+  getClockDuration,
+  isPlaying,
+  setIsPlaying,
+  isExportingRef,
+}: VideoExporterProps) {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportWarning, setExportWarning] = useState<string | null>(null);
+  const cancelRequestedRef = useRef(false);
+
+  // Step through the source at a fixed timestep, rendering every frame from the export clock
+  const exportVideo = useCallback(async ({ format, fps, duration }: VideoExportOptions) => {
+    const canvas = canvasRef.current;
+    if (!canvas || progress) return;
+
+    const total = Math.max(1, Math.round(duration * fps));
+    const wasPlaying = isPlaying;
+    let sink: FrameSink | null = null;
+
+    cancelRequestedRef.current = false;
+    setExportError(null);
+    setExportWarning(null);
+    setProgress({ current: 0, total });
+    // Stop the live loop and video playback so they can't race the export, and keep
+    // pointer input, seeks and re-renders from drawing between its frames
+    isExportingRef.current = true;
+    setIsPlaying(false);
+
+    try {
+      sink = format === 'webm'
+        ? await createWebMSink(canvas.width, canvas.height, fps)
+        : createPngSequenceSink();
+
+      // Trails and other feedback effects start from nothing, like the first frame of playback
+      clearFeedback();
+
+      for (let frameIndex = 0; frameIndex < total; frameIndex++) {
+        if (cancelRequestedRef.current) throw new ExportCancelledError();
+
+        const time = frameIndex / fps;
+        if (!(await seekVideoFrame(time)) && frameIndex === 0) {
+          setExportWarning('This source cannot be stepped frame by frame, so each frame shows whatever it is showing at that moment and the export is not repeatable.');
+        }
+
+        const clock = { time, deltaTime: 1 / fps, duration: getClockDuration() };
+        const frame = evaluateFrame(timelineDuration > 0 ? time % timelineDuration : 0, time);
+        // The first draw may only set up the video texture
+        if (!drawFrame(frame, clock) && !drawFrame(frame, clock)) {
+          throw new Error('The renderer is not ready yet. Wait for the preview to appear and try again.');
+        }
+
+        // Objects are part of the pipeline, so the canvas holds the whole frame
+        await sink.addFrame(canvas, frameIndex);
+        setProgress({ current: frameIndex + 1, total });
+      }
+
+      const blob = await sink.finish();
+      downloadBlob(blob, format === 'webm' ? 'export.webm' : 'export-frames.zip');
+    } catch (e) {
+      sink?.abort();
+      if (!(e instanceof ExportCancelledError)) {
+        console.error('Video export failed:', e);
+        setExportError(e instanceof Error ? e.message : String(e));
+      }
+    } finally {
+      isExportingRef.current = false;
+      setProgress(null);
+      if (wasPlaying) {
+        setIsPlaying(true);
+      }
+    }
+  }, [canvasRef, progress, isPlaying, setIsPlaying, isExportingRef, seekVideoFrame, clearFeedback, evaluateFrame, drawFrame, timelineDuration, getClockDuration]);
+
+  const cancelExport = useCallback(() => {
+    cancelRequestedRef.current = true;
+  }, []);
+
+  return {
+    exportVideo,
+    cancelExport,
+    progress,
+    exportError,
+    exportWarning,
+    clearExportError: () => {
+      setExportError(null);
+      setExportWarning(null);
+    },
+  };
+}
@@ -1,35 +1,193 @@
 import { useCallback, useRef, useEffect, MutableRefObject, useState } from 'react';
 import { vertexShaderSource } from '../shaders/defaultShaders';
-import { CanvasObject, Shader } from '../types';
+import { BlendMode, CanvasObject, ColorLut, FrameClock, Lfo, Pipeline, Shader, ShaderError, ShaderSnippet, Timeline } from '../types';
+import { applyTimeline } from '../utils/animation';
+import { toGLValue } from '../utils/uniforms';
+import { applyModulation } from '../utils/modulation';
+import { checkProgram, getVertexShaderSource, isGlsl300, prepareFragmentShader } from '../utils/shaderCompiler';
+import { mapShaderErrors, preprocessShader } from '../utils/glslPreprocessor';
+import { isValidPassName } from '../utils/glslUniforms';
+import { packLutAtlas, quantizeLutPixels } from '../utils/cubeLut';
+import { AUDIO_TEXTURE_ROWS, AUDIO_TEXTURE_WIDTH, applyAudioBindings } from '../utils/audioAnalysis';
+import { FramebufferPool, RenderTargetType, createFramebufferPool } from '../utils/framebufferPool';
+import { FLOAT_TARGET_EXTENSIONS, adaptWebGL2ForRegl } from '../utils/webgl2Compat';
+import { MAX_TEXTURE_INPUTS, SOURCE_NODE_ID, planGraph, planStack } from '../utils/pipelineGraph';
+import { getPlacementKey, groupObjectLayers } from '../utils/objectLayers';
+import { getObjectUniformDefault, getObjectUniformValues, getReferencedObjectUniforms } from '../utils/objectBindings';
+import { paintObjects } from './ObjectRenderer';
+import { KEYBOARD_TEXTURE_ROWS, KEYBOARD_TEXTURE_WIDTH, UserInputState } from './PointerInput';
+import { AudioInputState } from './AudioInput';
 // Import regl directly since it's installed in the project
 import REGL from 'regl';
 
+interface RenderTarget {
+  framebuffer: any;
+  width: number;
+  height: number;
+}
+
+// Feedback buffers survive between frames. Self-feedback passes ping-pong
+// between two so they never read the texture they are drawing into.
+interface FeedbackBuffers {
+  framebuffers: any[];
+  current: number;
+}
+
+const FINAL_FEEDBACK_KEY = '__final';
+
+// Alpha-blends a straight-alpha object layer over a frame
+const compositeFragmentShader = `
+  precision mediump float;
+  uniform sampler2D u_base;
+  uniform sampler2D u_layer;
+  varying vec2 v_texCoord;
+  void main() {
+    vec4 base = texture2D(u_base, v_texCoord);
+    vec4 layer = texture2D(u_layer, v_texCoord);
+    gl_FragColor = vec4(mix(base.rgb, layer.rgb, layer.a), layer.a + base.a * (1.0 - layer.a));
+  }
+`;
+
+// Keeps a pass's output only where the mask covers, and its input elsewhere
+const maskFragmentShader = `
+  precision mediump float;
+  uniform sampler2D u_base;
+  uniform sampler2D u_result;
+  uniform sampler2D u_mask;
+  uniform bool u_invert;
+  varying vec2 v_texCoord;
+  void main() {
+    float coverage = texture2D(u_mask, v_texCoord).a;
+    if (u_invert) coverage = 1.0 - coverage;
+    gl_FragColor = mix(texture2D(u_base, v_texCoord), texture2D(u_result, v_texCoord), coverage);
+  }
+`;
+
+// Lays a pass's output over its input with a blend mode, then fades it by opacity
+const blendFragmentShader = `
+  precision mediump float;
+  uniform sampler2D u_base;
+  uniform sampler2D u_result;
+  uniform int u_mode;
+  uniform float u_opacity;
+  varying vec2 v_texCoord;
+  void main() {
+    vec4 base = texture2D(u_base, v_texCoord);
+    vec4 result = texture2D(u_result, v_texCoord);
+    vec3 a = base.rgb;
+    vec3 b = result.rgb;
+    vec3 blended = b;
+    if (u_mode == 1) blended = min(a + b, 1.0);
+    else if (u_mode == 2) blended = a * b;
+    else if (u_mode == 3) blended = 1.0 - (1.0 - a) * (1.0 - b);
+    else if (u_mode == 4) blended = mix(2.0 * a * b, 1.0 - 2.0 * (1.0 - a) * (1.0 - b), step(0.5, a));
+    else if (u_mode == 5) blended = abs(a - b);
+    gl_FragColor = mix(base, vec4(blended, result.a), u_opacity);
+  }
+`;
+
+const BLEND_MODE_INDEX: Record<BlendMode, number> = {
+  normal: 0,
+  add: 1,
+  multiply: 2,
+  screen: 3,
+  overlay: 4,
+  difference: 5,
+};
+
+// Key of the mask texture that covers every visible object
+const ALL_OBJECTS_MASK = '__all';
+
+interface RasterizedGroup {
+  canvas: HTMLCanvasElement;
+  texture: any;
+}
+
+// LUTs never change once loaded, so each is uploaded once per id
+interface LutTexture {
+  texture: any;
+  lut: ColorLut;
+  tiles: [number, number];
+}
+
+// A shader's compiled commands: its sub-passes in order, then the final pass
+interface ShaderProgram {
+  command: any;
+  subPasses: { name: string; scale: number; command: any }[];
+  // Whether any of its expanded sources samples u_objectMask
+  readsObjectMask: boolean;
+}
+
 interface WebGLRendererProps {
   canvasRef: React.RefObject<HTMLCanvasElement>;
   videoCanvasRef: MutableRefObject<HTMLCanvasElement | null>;
   shaders: Shader[];
+  snippets: ShaderSnippet[];
+  luts: ColorLut[];
   objects: CanvasObject[];
+  objectsVisible: boolean;
+  inputStateRef: MutableRefObject<UserInputState>;
+  audioStateRef: MutableRefObject<AudioInputState>;
   isPlaying: boolean;
-  isVideoLoaded: boolean;
+  // Wall-clock time keeps moving while paused, so the loop has to keep drawing
+  loopWhilePaused: boolean;
+  // While set, video export owns the canvas, the clock and the feedback history
+  isExportingRef: MutableRefObject<boolean>;
   animationFrameRef: React.MutableRefObject<number | undefined>;
+  timeline: Timeline;
+  lfos: Lfo[];
+  pipeline: Pipeline;
+  getTimelineTime: () => number;
+  tickClock: () => FrameClock;
+  drawOverlay: (objects: CanvasObject[]) => void;
 }
 
 export function useWebGLRenderer({
   canvasRef,
   videoCanvasRef,
   shaders,
+  snippets,
+  luts,
   objects,
+  objectsVisible,
+  inputStateRef,
+  audioStateRef,
   isPlaying,
-  isVideoLoaded,
+  loopWhilePaused,
+  isExportingRef,
   animationFrameRef,
+  timeline,
+  lfos,
+  pipeline,
+  getTimelineTime,
+  tickClock,
+  drawOverlay,
 }: WebGLRendererProps) {
   // Using more generic types to avoid TypeScript errors
   const reglRef = useRef<any>(null);
-  const commandsRef = useRef<any[]>([]);
-  const fbosRef = useRef<any[]>([]);
+  const commandsRef = useRef<Record<string, ShaderProgram>>({});
+  const fbPoolRef = useRef<FramebufferPool | null>(null);
   const videoTextureRef = useRef<any>(null);
   const simplePassthroughRef = useRef<any>(null);
+  const feedbackRef = useRef<Map<string, FeedbackBuffers>>(new Map());
+  const emptyTextureRef = useRef<any>(null);
+  const keyboardTextureRef = useRef<any>(null);
+  const audioTextureRef = useRef<any>(null);
+  // Smoothed band levels of audio-bound uniforms
+  const audioSmoothingRef = useRef<Map<string, number>>(new Map());
+  // Frames drawn while the clock ran since the history was last cleared, for u_frame
+  const frameCountRef = useRef(0);
+  const compositeRef = useRef<any>(null);
+  const maskBlendRef = useRef<any>(null);
+  const blendRef = useRef<any>(null);
+  const objectLayersRef = useRef<Map<string, RasterizedGroup>>(new Map());
+  const objectMasksRef = useRef<Map<string, RasterizedGroup>>(new Map());
+  const lutTexturesRef = useRef<Map<string, LutTexture>>(new Map());
+  const isWebGL2Ref = useRef(false);
+  // Intermediate and feedback targets are half float where the GPU can render to it
+  const targetTypeRef = useRef<RenderTargetType>('uint8');
   const [isInitialized, setIsInitialized] = useState(false);
+  const [shaderErrors, setShaderErrors] = useState<Record<string, ShaderError[]>>({});
 
   // Set up video texture
   const setupVideoTexture = useCallback(() => {
@@ -42,6 +200,7 @@ export function useWebGLRenderer({
     if (!videoTextureRef.current) {
       videoTextureRef.current = regl.texture({
         data: videoCanvas,
+        flipY: true,
         min: 'linear',
         mag: 'linear',
         wrap: 'clamp'
@@ -56,12 +215,15 @@ export function useWebGLRenderer({
 
     console.log('Initializing WebGL...');
 
-    // Create new regl instance
+    // Prefer WebGL2 so GLSL ES 3.00 shaders can run; ES 1.00 shaders compile on either
     try {
-      reglRef.current = REGL({
-        canvas,
-        attributes: { preserveDrawingBuffer: true }
-      });
+      const gl = canvas.getContext('webgl2', { preserveDrawingBuffer: true });
+      isWebGL2Ref.current = !!gl;
+      const floatTargets = !!gl && adaptWebGL2ForRegl(gl);
+      targetTypeRef.current = floatTargets ? 'half float' : 'uint8';
+      reglRef.current = gl
+        ? REGL({ gl: gl as unknown as WebGLRenderingContext, optionalExtensions: floatTargets ? FLOAT_TARGET_EXTENSIONS : [] })
+        : REGL({ canvas, attributes: { preserveDrawingBuffer: true } });
     } catch (e) {
       console.error('Failed to initialize regl:', e);
       return;
@@ -69,32 +231,11 @@ export function useWebGLRenderer({
 
     const regl = reglRef.current;
 
-    // Create framebuffers for multi-pass rendering
-    fbosRef.current = [
-      regl.framebuffer({
-        color: regl.texture({
-          width: canvas.width,
-          height: canvas.height,
-          min: 'linear',
-          mag: 'linear',
-          wrap: 'clamp'
-        }),
-        depth: false
-      }),
-      regl.framebuffer({
-        color: regl.texture({
-          width: canvas.width,
-          height: canvas.height,
-          min: 'linear',
-          mag: 'linear',
-          wrap: 'clamp'
-        }),
-        depth: false
-      })
-    ];
+    // Intermediate framebuffers for multi-pass rendering come from a shared pool
+    fbPoolRef.current = createFramebufferPool(regl, targetTypeRef.current);
 
-    // Initialize commands array
-    commandsRef.current = [];
+    // Initialize commands map
+    commandsRef.current = {};
 
     // Create a simple pass-through shader once
     simplePassthroughRef.current = regl({
@@ -115,10 +256,10 @@ export function useWebGLRenderer({
           [1, 1]
         ],
         a_texCoord: [
-          [0, 1],  // Flip Y coordinate
-          [1, 1],
           [0, 0],
-          [1, 0]
+          [1, 0],
+          [0, 1],
+          [1, 1]
         ]
       },
       uniforms: {
@@ -128,203 +269,788 @@ export function useWebGLRenderer({
       primitive: 'triangle strip'
     });
 
+    compositeRef.current = regl({
+      frag: compositeFragmentShader,
+      vert: vertexShaderSource,
+      attributes: {
+        a_position: [
+          [-1, -1],
+          [1, -1],
+          [-1, 1],
+          [1, 1]
+        ],
+        a_texCoord: [
+          [0, 0],
+          [1, 0],
+          [0, 1],
+          [1, 1]
+        ]
+      },
+      uniforms: {
+        u_base: regl.prop('base'),
+        u_layer: regl.prop('layer')
+      },
+      count: 4,
+      primitive: 'triangle strip'
+    });
+
+    maskBlendRef.current = regl({
+      frag: maskFragmentShader,
+      vert: vertexShaderSource,
+      attributes: {
+        a_position: [
+          [-1, -1],
+          [1, -1],
+          [-1, 1],
+          [1, 1]
+        ],
+        a_texCoord: [
+          [0, 0],
+          [1, 0],
+          [0, 1],
+          [1, 1]
+        ]
+      },
+      uniforms: {
+        u_base: regl.prop('base'),
+        u_result: regl.prop('result'),
+        u_mask: regl.prop('mask'),
+        u_invert: regl.prop('invert')
+      },
+      count: 4,
+      primitive: 'triangle strip'
+    });
+
+    blendRef.current = regl({
+      frag: blendFragmentShader,
+      vert: vertexShaderSource,
+      attributes: {
+        a_position: [
+          [-1, -1],
+          [1, -1],
+          [-1, 1],
+          [1, 1]
+        ],
+        a_texCoord: [
+          [0, 0],
+          [1, 0],
+          [0, 1],
+          [1, 1]
+        ]
+      },
+      uniforms: {
+        u_base: regl.prop('base'),
+        u_result: regl.prop('result'),
+        u_mode: regl.prop('mode'),
+        u_opacity: regl.prop('opacity')
+      },
+      count: 4,
+      primitive: 'triangle strip'
+    });
+
+    // Bound as u_prevFrame when a pass has no history yet
+    emptyTextureRef.current = regl.texture({ width: 1, height: 1, data: new Uint8Array(4) });
+
+    keyboardTextureRef.current = regl.texture({
+      width: KEYBOARD_TEXTURE_WIDTH,
+      height: KEYBOARD_TEXTURE_ROWS,
+      format: 'luminance',
+      min: 'nearest',
+      mag: 'nearest'
+    });
+    inputStateRef.current.keysChanged = true;
+
+    audioTextureRef.current = regl.texture({
+      width: AUDIO_TEXTURE_WIDTH,
+      height: AUDIO_TEXTURE_ROWS,
+      format: 'luminance',
+      min: 'linear',
+      mag: 'linear',
+      wrap: 'clamp'
+    });
+    audioStateRef.current.spectrumChanged = true;
+
     // Set up the video texture
     setupVideoTexture();
 
     setIsInitialized(true);
-  }, [canvasRef, setupVideoTexture]);
+  }, [canvasRef, setupVideoTexture, inputStateRef, audioStateRef]);
+
+  // Expand #includes and check the result against the live context, with
+  // errors mapped back to the lines the user wrote
+  const compileShader = useCallback((fragmentShader: string): { source: string; errors: ShaderError[] } => {
+    const regl = reglRef.current;
+    const { source, lineMap, errors } = preprocessShader(fragmentShader, snippets);
+    if (!regl || errors.length > 0) return { source, errors };
+    if (isGlsl300(source) && !isWebGL2Ref.current) {
+      return { source, errors: [{ line: null, column: null, message: 'GLSL ES 3.00 (#version 300 es) needs WebGL2, which this browser does not provide' }] };
+    }
+    const compileErrors = checkProgram(regl._gl, getVertexShaderSource(source), prepareFragmentShader(source));
+    return { source, errors: mapShaderErrors(compileErrors, lineMap) };
+  }, [snippets]);
 
-  // Update shader commands when shaders or objects change
+  // Check a fragment shader without touching the pipeline
+  const validateShader = useCallback((fragmentShader: string): ShaderError[] => {
+    return compileShader(fragmentShader).errors;
+  }, [compileShader]);
+
+  // Rebuild shader commands when the shaders change
   const updateShaderCommands = useCallback(() => {
     if (!reglRef.current || !isInitialized) return;
 
     console.log('Updating shader commands...');
     const regl = reglRef.current;
+    const previousCommands = commandsRef.current;
+    const nextCommands: Record<string, ShaderProgram> = {};
+    const errors: Record<string, ShaderError[]> = {};
 
-    // Dispose of old shader commands to prevent memory leaks
-    if (commandsRef.current.length > 0) {
-      console.log(`Disposing ${commandsRef.current.length} old shader commands`);
-      commandsRef.current.forEach(command => {
-        if (command && typeof command.destroy === 'function') {
-          try {
-            command.destroy();
-          } catch (e) {
-            console.warn('Error destroying shader command:', e);
-          }
+    const createCommand = (source: string, shader: Shader) => regl({
+      frag: prepareFragmentShader(source),
+      vert: getVertexShaderSource(source),
+      attributes: {
+        a_position: [
+          [-1, -1],
+          [1, -1],
+          [-1, 1],
+          [1, 1]
+        ],
+        // The video is uploaded with flipY, so texture and framebuffer
+        // coordinates share a bottom-left origin and passes chain upright
+        a_texCoord: [
+          [0, 0],
+          [1, 0],
+          [0, 1],
+          [1, 1]
+        ]
+      },
+      uniforms: {
+        u_texture: regl.prop('texture'),
+        // Named inputs for multi-input passes; u_texture is u_texture0
+        ...Object.fromEntries(
+          Array.from({ length: MAX_TEXTURE_INPUTS }, (_, i) => [`u_texture${i}`, regl.prop(`texture${i}`)])
+        ),
+        u_resolution: regl.prop('resolution'),
+        u_time: regl.prop('time'),
+        u_deltaTime: regl.prop('deltaTime'),
+        u_duration: regl.prop('duration'),
+        u_sourceResolution: regl.prop('sourceResolution'),
+        u_prevFrame: regl.prop('prevFrame'),
+        u_objectMask: regl.prop('objectMask'),
+        u_frame: regl.prop('frame'),
+        u_mouse: regl.prop('mouse'),
+        u_mouseDown: regl.prop('mouseDown'),
+        u_clickPos: regl.prop('clickPos'),
+        u_dragDelta: regl.prop('dragDelta'),
+        u_keyboard: regl.prop('keyboard'),
+        u_audioLevel: regl.prop('audioLevel'),
+        u_audioLow: regl.prop('audioLow'),
+        u_audioMid: regl.prop('audioMid'),
+        u_audioHigh: regl.prop('audioHigh'),
+        u_audioBeat: regl.prop('audioBeat'),
+        u_audioSpectrum: regl.prop('audioSpectrum'),
+        u_lut: regl.prop('lut'),
+        u_lutSize: regl.prop('lutSize'),
+        u_lutTiles: regl.prop('lutTiles'),
+        u_lutDomainMin: regl.prop('lutDomainMin'),
+        u_lutDomainMax: regl.prop('lutDomainMax'),
+        // Schema-driven uniforms will be added during render
+        ...Object.fromEntries(
+          Object.keys(shader.uniformSchema).map(name => [
+            name,
+            regl.prop(name)
+          ])
+        ),
+        // Sub-pass results; a pass that hasn't rendered yet reads the effect input
+        ...Object.fromEntries(
+          (shader.passes ?? []).map(pass => [
+            `u_pass_${pass.name}`,
+            (_: any, props: any) => props.passTextures?.[pass.name] ?? props.texture
+          ])
+        ),
+        // Object uniforms are looked up by name each frame; missing objects read as zero
+        ...Object.fromEntries(
+          getReferencedObjectUniforms(source).map(name => {
+            const fallback = getObjectUniformDefault(name);
+            return [name, (_: any, props: any) => props.objectUniforms[name] ?? fallback];
+          })
+        )
+      },
+      count: 4,
+      primitive: 'triangle strip'
+    });
+
+    // Compile each shader on its own so one broken pass can't take down the pipeline
+    shaders.forEach(shader => {
+      const main = compileShader(shader.fragmentShader);
+      const subPasses = (shader.passes ?? []).map(pass => ({ pass, ...compileShader(pass.fragmentShader) }));
+      const seenNames = new Set<string>();
+      const nameErrors: ShaderError[] = (shader.passes ?? []).flatMap(pass => {
+        const repeated = seenNames.has(pass.name);
+        seenNames.add(pass.name);
+        if (!isValidPassName(pass.name)) {
+          return [{ line: null, column: null, message: `Sub-pass "${pass.name}": names must be letters, digits and single underscores, as they become u_pass_<name>` }];
         }
+        return repeated ? [{ line: null, column: null, message: `Sub-pass "${pass.name}": another sub-pass has the same name` }] : [];
       });
-      commandsRef.current = [];
+      const compileErrors = [
+        ...nameErrors,
+        ...main.errors,
+        ...subPasses.flatMap(({ pass, errors: passErrors }) => passErrors.map(error => ({
+          line: null,
+          column: null,
+          message: `Sub-pass "${pass.name}"${error.line !== null ? ` line ${error.line}` : ''}: ${error.message}`,
+        }))),
+      ];
+      if (compileErrors.length > 0) {
+        errors[shader.id] = compileErrors;
+        // Keep the last working program, if any, so the preview stays up
+        if (previousCommands[shader.id]) {
+          nextCommands[shader.id] = previousCommands[shader.id];
+        }
+        return;
+      }
+
+      try {
+        nextCommands[shader.id] = {
+          command: createCommand(main.source, shader),
+          subPasses: subPasses.map(({ pass, source }) => ({
+            name: pass.name,
+            scale: pass.scale ?? 1,
+            command: createCommand(source, shader),
+          })),
+          readsObjectMask: [main, ...subPasses].some(({ source }) => /\bu_objectMask\b/.test(source)),
+        };
+      } catch (e) {
+        console.warn(`Failed to create command for shader: ${shader.name}`, e);
+        errors[shader.id] = [{ line: null, column: null, message: e instanceof Error ? e.message : String(e) }];
+        if (previousCommands[shader.id]) {
+          nextCommands[shader.id] = previousCommands[shader.id];
+        }
+      }
+    });
+
+    commandsRef.current = nextCommands;
+    setShaderErrors(errors);
+  }, [shaders, isInitialized, compileShader]);
+
+  // Resolve keyframed values for a point on the timeline, then LFOs and expressions
+  // at the time the frame is drawn with
+  const evaluateFrame = useCallback((timelineTime: number, time: number) => {
+    const canvas = canvasRef.current;
+    const keyframed = applyTimeline(shaders, objects, timeline, timelineTime);
+    return applyModulation(keyframed, lfos, time, canvas?.width ?? 1, canvas?.height ?? 1);
+  }, [canvasRef, shaders, objects, timeline, lfos]);
+
+  const getFeedbackBuffers = useCallback((key: string, width: number, height: number, count: number) => {
+    const regl = reglRef.current;
+    const feedback = feedbackRef.current;
+    let entry = feedback.get(key);
+
+    // History at another size can't be reused, so it starts over
+    if (entry && (entry.framebuffers[0].width !== width || entry.framebuffers[0].height !== height)) {
+      entry.framebuffers.forEach(framebuffer => framebuffer.destroy());
+      entry = undefined;
     }
 
-    // Create commands for each shader
-    commandsRef.current = shaders.map(shader => {
-      return regl({
-        frag: shader.fragmentShader,
-        vert: vertexShaderSource,
-        attributes: {
-          a_position: [
-            [-1, -1],
-            [1, -1],
-            [-1, 1],
-            [1, 1]
-          ],
-          a_texCoord: [
-            [0, 1],  // Flip Y coordinate: (0,0) -> (0,1)
-            [1, 1],  // Flip Y coordinate: (1,0) -> (1,1)
-            [0, 0],  // Flip Y coordinate: (0,1) -> (0,0)
-            [1, 0]   // Flip Y coordinate: (1,1) -> (1,0)
-          ]
-        },
-        uniforms: {
-          u_texture: regl.prop('texture'),
-          u_resolution: regl.prop('resolution'),
-          u_time: regl.prop('time'),
-          // Dynamic uniforms will be added during render
-          ...Object.fromEntries(
-            Object.keys(shader.uniforms).map(name => [
-              name,
-              regl.prop(name)
-            ])
-          ),
-          // Object uniforms will be added during render
-          ...objects.reduce<Record<string, any>>((acc, _, i) => {
-            acc[`u_object${i}_pos`] = regl.prop(`object${i}_pos`);
-            acc[`u_object${i}_size`] = regl.prop(`object${i}_size`);
-            acc[`u_object${i}_rotation`] = regl.prop(`object${i}_rotation`);
-            acc[`u_object${i}_color`] = regl.prop(`object${i}_color`);
-            return acc;
-          }, {})
-        },
-        count: 4,
-        primitive: 'triangle strip'
-      });
+    if (!entry) {
+      entry = {
+        framebuffers: Array.from({ length: count }, () => {
+          const framebuffer = regl.framebuffer({
+            color: regl.texture({ width, height, type: targetTypeRef.current, min: 'linear', mag: 'linear', wrap: 'clamp' }),
+            depth: false
+          });
+          regl.clear({ color: [0, 0, 0, 0], framebuffer });
+          return framebuffer;
+        }),
+        current: 0,
+      };
+      feedback.set(key, entry);
+    }
+    return entry;
+  }, []);
+
+  // Wipe every pass's history and restart u_frame, e.g. to restart trails
+  const clearFeedback = useCallback(() => {
+    const regl = reglRef.current;
+    if (!regl) return;
+
+    frameCountRef.current = 0;
+    feedbackRef.current.forEach(entry => {
+      entry.framebuffers.forEach(framebuffer => regl.clear({ color: [0, 0, 0, 0], framebuffer }));
     });
-  }, [shaders, objects, isInitialized]);
+  }, []);
 
-  const render = useCallback(() => {
+  // Paint each group of objects into its own texture at the render size, reusing
+  // the cached canvas and texture per key and dropping keys that went away.
+  // Objects are laid out in on-screen canvas pixels, so other sizes scale them.
+  const rasterizeGroups = useCallback((
+    cache: Map<string, RasterizedGroup>,
+    groups: Map<string, CanvasObject[]>,
+    width: number,
+    height: number,
+    asMask: boolean
+  ) => {
     const regl = reglRef.current;
     const canvas = canvasRef.current;
-    const videoCanvas = videoCanvasRef.current;
+    const textures = new Map<string, any>();
+    if (!regl || !canvas) return textures;
 
-    if (!regl || !canvas || !videoCanvas) {
-      // Keep trying to render even if video isn't loaded yet
-      if (isPlaying) {
-        animationFrameRef.current = requestAnimationFrame(render);
+    groups.forEach((group, key) => {
+      let entry = cache.get(key);
+      if (!entry) {
+        entry = { canvas: document.createElement('canvas'), texture: regl.texture({ width: 1, height: 1 }) };
+        cache.set(key, entry);
       }
-      return;
+
+      if (entry.canvas.width !== width || entry.canvas.height !== height) {
+        entry.canvas.width = width;
+        entry.canvas.height = height;
+      }
+      const ctx = entry.canvas.getContext('2d');
+      if (!ctx) return;
+
+      ctx.clearRect(0, 0, width, height);
+      ctx.save();
+      ctx.scale(width / canvas.width, height / canvas.height);
+      paintObjects(ctx, group, asMask);
+      ctx.restore();
+
+      if (entry.texture.width !== width || entry.texture.height !== height) {
+        entry.texture({ data: entry.canvas, flipY: true, min: 'linear', mag: 'linear', wrap: 'clamp' });
+      } else {
+        entry.texture.subimage(entry.canvas);
+      }
+      textures.set(key, entry.texture);
+    });
+
+    cache.forEach((entry, key) => {
+      if (groups.has(key)) return;
+      entry.texture.destroy();
+      cache.delete(key);
+    });
+
+    return textures;
+  }, [canvasRef]);
+
+  // A pass without a LUT (or with one that was removed) gets u_lutSize 0 and leaves colours alone
+  const getLutUniforms = useCallback((lutId: string | undefined) => {
+    const entry = lutId ? lutTexturesRef.current.get(lutId) : undefined;
+    if (!entry) {
+      return { lut: emptyTextureRef.current, lutSize: 0, lutTiles: [0, 0], lutDomainMin: [0, 0, 0], lutDomainMax: [1, 1, 1] };
     }
+    return {
+      lut: entry.texture,
+      lutSize: entry.lut.size,
+      lutTiles: entry.tiles,
+      lutDomainMin: entry.lut.domainMin,
+      lutDomainMax: entry.lut.domainMax,
+    };
+  }, []);
+
+  // Draw one frame of the pipeline to the canvas, or to `target` at its own size.
+  // Returns false if it isn't ready yet. `clock` feeds u_time, u_deltaTime and
+  // u_duration, so offline export can drive them from its own clock.
+  const drawFrame = useCallback((
+    frame: { shaders: Shader[]; objects: CanvasObject[] },
+    clock: FrameClock,
+    target: RenderTarget | null = null
+  ) => {
+    const regl = reglRef.current;
+    const canvas = canvasRef.current;
+    const videoCanvas = videoCanvasRef.current;
+    const pool = fbPoolRef.current;
+
+    if (!regl || !canvas || !videoCanvas || !pool) return false;
+
+    const width = target ? target.width : canvas.width;
+    const height = target ? target.height : canvas.height;
+    const drawToOutput = (draw: () => void) => (target ? target.framebuffer.use(draw) : draw());
 
     // Update video texture with current video frame
     if (videoTextureRef.current) {
       try {
-        videoTextureRef.current.subimage(videoCanvas);
+        const texture = videoTextureRef.current;
+        if (texture.width !== videoCanvas.width || texture.height !== videoCanvas.height) {
+          // The source changed size; respecify the texture in place so every command keeps its input
+          texture({
+            data: videoCanvas,
+            flipY: true,
+            min: 'linear',
+            mag: 'linear',
+            wrap: 'clamp'
+          });
+        } else {
+          texture.subimage(videoCanvas);
+        }
       } catch (e) {
         console.error('Error updating video texture:', e);
-        // Continue animation loop even if texture update fails
-        if (isPlaying) {
-          animationFrameRef.current = requestAnimationFrame(render);
-        }
-        return;
+        return false;
       }
     } else {
-      // If video texture doesn't exist yet, create it
+      // If video texture doesn't exist yet, create it and skip this frame
       setupVideoTexture();
-
-      // Skip this frame if we just created the texture
-      if (isPlaying) {
-        animationFrameRef.current = requestAnimationFrame(render);
-      }
-      return;
+      return false;
     }
 
-    let currentTexture = videoTextureRef.current;
-    let textureIndex = 0;
+    const sourceTexture = videoTextureRef.current;
+    // Offscreen captures leave the live history alone and start from an empty one
+    const keepsHistory = target === null;
+    const feedbackInUse = new Set<string>();
+    const shadersById = new Map(frame.shaders.map(shader => [shader.id, shader]));
+    const plan = pipeline.mode === 'graph' ? planGraph(pipeline) : planStack(frame.shaders);
 
-    // Apply enabled shaders in sequence
-    const enabledShaders = shaders.filter(shader => shader.enabled);
+    // Objects go into the chain as layers, each composited at its placement
+    const layerTextures = rasterizeGroups(
+      objectLayersRef.current,
+      objectsVisible ? groupObjectLayers(frame.objects, pipeline.objectPlacement) : new Map(),
+      width,
+      height,
+      false
+    );
 
-    // Always clear the canvas
-    regl.clear({
-      color: [0, 0, 0, 0],
-      depth: 1
+    // Masks are only rasterized when a pass reads u_objectMask or is limited to an object.
+    // They follow each object's own visibility, so hiding all objects still keeps them.
+    const visibleObjects = frame.objects.filter(obj => obj.visible);
+    const maskGroups = new Map<string, CanvasObject[]>();
+    frame.shaders.forEach(shader => {
+      if (!shader.enabled) return;
+      if (visibleObjects.length > 0 && commandsRef.current[shader.id]?.readsObjectMask) {
+        maskGroups.set(ALL_OBJECTS_MASK, visibleObjects);
+      }
+      const maskObject = shader.mask && visibleObjects.find(obj => obj.id === shader.mask!.objectId);
+      if (maskObject) maskGroups.set(maskObject.id, [maskObject]);
     });
+    const maskTextures = rasterizeGroups(objectMasksRef.current, maskGroups, width, height, true);
+    // Missing groups mean nothing is covered
+    const getMaskTexture = (key: string) => maskTextures.get(key) ?? emptyTextureRef.current;
+    const compositedLayers = new Set<string>();
+    const compositeLayer = (base: any, key: string) => {
+      compositedLayers.add(key);
+      const framebuffer = pool.acquire(width, height);
+      framebuffer.use(() => compositeRef.current({ base, layer: layerTextures.get(key) }));
+      return framebuffer;
+    };
+    // Intermediates outside the node slots, released once the frame is done
+    const frameFramebuffers: any[] = [];
 
-    // If no shaders are enabled, just render the video directly
-    if (enabledShaders.length === 0) {
-      // Use the pre-created simple pass-through shader
-      simplePassthroughRef.current({
-        texture: currentTexture
+    const objectUniforms = getObjectUniformValues(frame.objects, canvas.width, canvas.height);
+
+    const input = inputStateRef.current;
+    if (input.keysChanged && keyboardTextureRef.current) {
+      keyboardTextureRef.current.subimage({
+        width: KEYBOARD_TEXTURE_WIDTH,
+        height: KEYBOARD_TEXTURE_ROWS,
+        data: input.keys
       });
-    } else {
-      enabledShaders.forEach((shader, index) => {
-        const programIndex = shaders.findIndex(s => s.id === shader.id);
-        const command = commandsRef.current[programIndex];
+      input.keysChanged = false;
+    }
+
+    const audio = audioStateRef.current;
+    if (audio.spectrumChanged && audioTextureRef.current) {
+      audioTextureRef.current.subimage({
+        width: AUDIO_TEXTURE_WIDTH,
+        height: AUDIO_TEXTURE_ROWS,
+        data: audio.spectrum
+      });
+      audio.spectrumChanged = false;
+    }
+
+    // Count reads of every result so its framebuffer can go back to the pool after the last one
+    const reads: Record<string, number> = {};
+    plan.steps.forEach(node => node.inputs.forEach(input => {
+      if (input) reads[input] = (reads[input] ?? 0) + 1;
+    }));
+    reads[plan.output] = (reads[plan.output] ?? 0) + 1;
+
+    type Slot = { texture: any; framebuffer: any | null; reads: number };
+    const sourceSlot: Slot = { texture: sourceTexture, framebuffer: null, reads: Infinity };
+    if (layerTextures.has('before')) {
+      const framebuffer = compositeLayer(sourceTexture, 'before');
+      frameFramebuffers.push(framebuffer);
+      sourceSlot.texture = framebuffer.color[0];
+    }
+    const slots = new Map<string, Slot>([[SOURCE_NODE_ID, sourceSlot]]);
+    // Unconnected inputs read the source frame
+    const resolveInput = (id: string | null) => (id && slots.get(id)) || sourceSlot;
+    const consume = (slot: Slot) => {
+      slot.reads--;
+      if (slot.reads <= 0 && slot.framebuffer) {
+        pool.release(slot.framebuffer);
+      }
+    };
+
+    // Soloing any pass bypasses every pass that isn't soloed
+    const soloActive = frame.shaders.some(shader => shader.enabled && shader.solo);
 
-        if (!command) {
-          console.warn(`Command not found for shader: ${shader.name}`);
-          return;
+    plan.steps.forEach(node => {
+      const shader = shadersById.get(node.shaderId);
+      const program = shader && shader.enabled ? commandsRef.current[shader.id] : undefined;
+      const inputs = node.inputs.length > 0 ? node.inputs.map(resolveInput) : [sourceSlot];
+      const ownReads = reads[node.id] ?? 0;
+      const afterKey = shader ? getPlacementKey({ layer: 'after', shaderId: shader.id }) : null;
+      const hasLayerAfter = afterKey !== null && layerTextures.has(afterKey);
+
+      const passThrough = () => {
+        if (hasLayerAfter) {
+          const framebuffer = compositeLayer(inputs[0].texture, afterKey);
+          inputs.forEach(consume);
+          slots.set(node.id, { texture: framebuffer.color[0], framebuffer, reads: ownReads });
+        } else {
+          inputs[0].reads += ownReads;
+          inputs.forEach(consume);
+          slots.set(node.id, inputs[0]);
         }
+      };
 
-        // Prepare uniforms for this shader
-        const uniforms: Record<string, any> = {
-          texture: currentTexture,
-          resolution: [canvas.width, canvas.height],
-          time: Date.now() / 1000
-        };
+      // Disabled and never-compiled passes hand their first input straight through
+      if (!shader || !program) {
+        passThrough();
+        return;
+      }
 
-        // Add shader-specific uniforms
-        Object.entries(shader.uniforms).forEach(([name, value]) => {
-          uniforms[name] = value;
-        });
+      // Bypassed and solo-muted passes show their input. Only those with feedback
+      // still run, further down, so their history stays current.
+      const feedback = shader.feedback ?? 'none';
+      const isMuted = shader.bypass || (soloActive && !shader.solo);
+      if (isMuted && feedback === 'none') {
+        passThrough();
+        return;
+      }
 
-        // Add object-based uniforms
-        objects.forEach((obj, objIndex) => {
-          // Calculate center position of the object's bounding box
-          const centerX = obj.x + obj.width / 2;
-          const centerY = obj.y + obj.height / 2;
-
-          // Fix coordinate system: Canvas uses top-left origin, WebGL uses bottom-left
-          uniforms[`object${objIndex}_pos`] = [
-            centerX / canvas.width,
-            1.0 - (centerY / canvas.height)
-          ];
-          uniforms[`object${objIndex}_size`] = [
-            obj.width / canvas.width,
-            obj.height / canvas.height
-          ];
-          uniforms[`object${objIndex}_rotation`] = obj.rotation;
-
-          // Parse color
-          const color = obj.color.replace('#', '');
-          const r = parseInt(color.substring(0, 2), 16) / 255;
-          const g = parseInt(color.substring(2, 4), 16) / 255;
-          const b = parseInt(color.substring(4, 6), 16) / 255;
-          uniforms[`object${objIndex}_color`] = [r, g, b];
+      // Self-feedback passes draw into their own persistent buffer instead of a pooled one
+      let prevFrame = emptyTextureRef.current;
+      let persistentFramebuffer: any = null;
+      if (keepsHistory && feedback === 'self') {
+        const entry = getFeedbackBuffers(node.id, width, height, 2);
+        prevFrame = entry.framebuffers[entry.current].color[0];
+        entry.current = 1 - entry.current;
+        persistentFramebuffer = entry.framebuffers[entry.current];
+        feedbackInUse.add(node.id);
+      } else if (keepsHistory && feedback === 'final') {
+        prevFrame = getFeedbackBuffers(FINAL_FEEDBACK_KEY, width, height, 1).framebuffers[0].color[0];
+        feedbackInUse.add(FINAL_FEEDBACK_KEY);
+      }
+
+      // Prepare uniforms for this shader
+      const uniforms: Record<string, any> = {
+        texture: inputs[0].texture,
+        resolution: [width, height],
+        sourceResolution: [videoCanvas.width, videoCanvas.height],
+        prevFrame,
+        objectMask: getMaskTexture(ALL_OBJECTS_MASK),
+        objectUniforms,
+        frame: frameCountRef.current,
+        mouse: input.mouse,
+        mouseDown: input.mouseDown ? 1 : 0,
+        clickPos: input.clickPos,
+        dragDelta: input.dragDelta,
+        keyboard: keyboardTextureRef.current,
+        audioLevel: audio.bands.level,
+        audioLow: audio.bands.low,
+        audioMid: audio.bands.mid,
+        audioHigh: audio.bands.high,
+        audioBeat: audio.bands.beat,
+        audioSpectrum: audioTextureRef.current,
+        ...getLutUniforms(shader.lut),
+        time: clock.time,
+        deltaTime: clock.deltaTime,
+        duration: clock.duration,
+      };
+      for (let i = 0; i < MAX_TEXTURE_INPUTS; i++) {
+        uniforms[`texture${i}`] = (inputs[i] ?? sourceSlot).texture;
+      }
+
+      // Add shader-specific uniforms, converted according to their schema
+      Object.entries(shader.uniformSchema).forEach(([name, descriptor]) => {
+        uniforms[name] = toGLValue(descriptor, shader.uniforms[name]);
+      });
+
+      // Sub-passes render at their own scale into pooled targets that live until the
+      // final pass has read them. Each sees u_resolution as its own size.
+      const passFramebuffers: any[] = [];
+      uniforms.passTextures = {};
+      program.subPasses.forEach(subPass => {
+        const passWidth = Math.max(1, Math.round(width * subPass.scale));
+        const passHeight = Math.max(1, Math.round(height * subPass.scale));
+        const passFramebuffer = pool.acquire(passWidth, passHeight);
+        passFramebuffers.push(passFramebuffer);
+        passFramebuffer.use(() => {
+          regl.clear({ color: [0, 0, 0, 0] });
+          try {
+            subPass.command({ ...uniforms, resolution: [passWidth, passHeight] });
+          } catch (e) {
+            console.warn(`Error drawing sub-pass ${subPass.name} of shader: ${shader.name}`, e);
+          }
         });
+        uniforms.passTextures[subPass.name] = passFramebuffer.color[0];
+      });
 
-        // Render to framebuffer (except for last pass)
-        if (index < enabledShaders.length - 1) {
-          fbosRef.current[textureIndex % 2].use(() => {
-            command(uniforms);
-          });
-          // Access the color attachment from the framebuffer
-          currentTexture = fbosRef.current[textureIndex % 2].color[0];
-          textureIndex++;
-        } else {
-          // Final pass renders to canvas
-          regl.clear({
-            color: [0, 0, 0, 0],
-            depth: 1
-          });
-          command(uniforms);
+      const framebuffer = persistentFramebuffer ?? pool.acquire(width, height);
+      framebuffer.use(() => {
+        regl.clear({ color: [0, 0, 0, 0] });
+        // A last-good program may reference uniforms that no longer exist
+        try {
+          program.command(uniforms);
+        } catch (e) {
+          console.warn(`Error drawing shader: ${shader.name}`, e);
+          simplePassthroughRef.current({ texture: inputs[0].texture });
         }
       });
+      passFramebuffers.forEach(passFramebuffer => pool.release(passFramebuffer));
+
+      if (isMuted) {
+        if (!persistentFramebuffer) pool.release(framebuffer);
+        passThrough();
+        return;
+      }
+
+      let result: Slot = {
+        texture: framebuffer.color[0],
+        framebuffer: persistentFramebuffer ? null : framebuffer,
+        reads: ownReads
+      };
+      const blend = shader.blend ?? { mode: 'normal', opacity: 1 };
+      if (blend.mode !== 'normal' || blend.opacity < 1) {
+        const blended = pool.acquire(width, height);
+        blended.use(() => blendRef.current({
+          base: inputs[0].texture,
+          result: result.texture,
+          mode: BLEND_MODE_INDEX[blend.mode],
+          opacity: blend.opacity
+        }));
+        if (result.framebuffer) pool.release(result.framebuffer);
+        result = { texture: blended.color[0], framebuffer: blended, reads: ownReads };
+      }
+      // Masked passes keep their input outside the object. A mask object that was
+      // deleted leaves the pass unmasked; a hidden one covers nothing.
+      if (shader.mask && frame.objects.some(obj => obj.id === shader.mask!.objectId)) {
+        const masked = pool.acquire(width, height);
+        masked.use(() => maskBlendRef.current({
+          base: inputs[0].texture,
+          result: result.texture,
+          mask: getMaskTexture(shader.mask!.objectId),
+          invert: shader.mask!.invert
+        }));
+        if (result.framebuffer) pool.release(result.framebuffer);
+        result = { texture: masked.color[0], framebuffer: masked, reads: ownReads };
+      }
+      inputs.forEach(consume);
+      if (hasLayerAfter) {
+        const layered = compositeLayer(result.texture, afterKey);
+        if (result.framebuffer) pool.release(result.framebuffer);
+        result = { texture: layered.color[0], framebuffer: layered, reads: ownReads };
+      }
+      slots.set(node.id, result);
+    });
+
+    const output = resolveInput(plan.output);
+
+    // On-top objects, plus any whose pass didn't run this frame, land over the result
+    let outputTexture = output.texture;
+    const remainingLayers = [...layerTextures.keys()]
+      .filter(key => !compositedLayers.has(key))
+      .sort((a, b) => (a === 'top' ? 1 : 0) - (b === 'top' ? 1 : 0));
+    remainingLayers.forEach(key => {
+      const framebuffer = compositeLayer(outputTexture, key);
+      frameFramebuffers.push(framebuffer);
+      outputTexture = framebuffer.color[0];
+    });
+
+    drawToOutput(() => {
+      regl.clear({
+        color: [0, 0, 0, 0],
+        depth: 1
+      });
+      simplePassthroughRef.current({ texture: outputTexture });
+    });
+
+    if (keepsHistory) {
+      if (clock.deltaTime > 0) frameCountRef.current++;
+
+      // Keep this frame's composite for passes that read the final output next frame
+      if (feedbackInUse.has(FINAL_FEEDBACK_KEY)) {
+        feedbackRef.current.get(FINAL_FEEDBACK_KEY)!.framebuffers[0].use(() => {
+          simplePassthroughRef.current({ texture: outputTexture });
+        });
+      }
+
+      // Drop history for passes that were removed or stopped using it
+      feedbackRef.current.forEach((entry, key) => {
+        if (feedbackInUse.has(key)) return;
+        entry.framebuffers.forEach(framebuffer => framebuffer.destroy());
+        feedbackRef.current.delete(key);
+      });
+    }
+    consume(output);
+    frameFramebuffers.forEach(framebuffer => pool.release(framebuffer));
+
+    return true;
+  }, [setupVideoTexture, getFeedbackBuffers, rasterizeGroups, getLutUniforms, pipeline, objectsVisible, inputStateRef, audioStateRef]);
+
+  // Render a frame offscreen at any resolution and read it back, top row first
+  const captureFrame = useCallback((
+    frame: { shaders: Shader[]; objects: CanvasObject[] },
+    clock: FrameClock,
+    width: number,
+    height: number
+  ): ImageData | null => {
+    const regl = reglRef.current;
+    if (!regl) return null;
+
+    const maxSize = regl.limits.maxRenderbufferSize;
+    if (width > maxSize || height > maxSize) {
+      throw new Error(`${width}x${height} exceeds this GPU's maximum render size of ${maxSize}px.`);
+    }
+
+    const framebuffer = regl.framebuffer({ width, height, depth: false });
+    try {
+      const target = { framebuffer, width, height };
+      // The first draw may only set up the video texture
+      if (!drawFrame(frame, clock, target) && !drawFrame(frame, clock, target)) return null;
+
+      const pixels: Uint8Array = regl.read({ framebuffer });
+
+      // GL rows run bottom-up, ImageData rows top-down
+      const rowSize = width * 4;
+      const flipped = new Uint8ClampedArray(pixels.length);
+      for (let y = 0; y < height; y++) {
+        flipped.set(pixels.subarray(y * rowSize, (y + 1) * rowSize), (height - 1 - y) * rowSize);
+      }
+      return new ImageData(flipped, width, height);
+    } finally {
+      framebuffer.destroy();
+      // Don't keep full-resolution intermediates around once the capture is done
+      if (canvasRef.current) {
+        fbPoolRef.current?.trim(canvasRef.current.width, canvasRef.current.height);
+      }
+    }
+  }, [canvasRef, drawFrame]);
+
+  const render = useCallback(() => {
+    // Only ever keep one frame loop alive, however often render() is kicked off
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = undefined;
     }
+    if (isExportingRef.current) return;
 
-    if (isPlaying) {
+    // Evaluate keyframed and modulated values for this frame before building any
+    // uniforms, then let audio move the uniforms bound to it
+    const clock = tickClock();
+    const keyframed = evaluateFrame(getTimelineTime(), clock.time);
+    const frame = {
+      ...keyframed,
+      shaders: applyAudioBindings(keyframed.shaders, audioStateRef.current.bands, audioSmoothingRef.current, clock.deltaTime),
+    };
+    drawOverlay(frame.objects);
+
+    // Keep the loop going even if video isn't loaded yet
+    drawFrame(frame, clock);
+
+    if (isPlaying || loopWhilePaused) {
       animationFrameRef.current = requestAnimationFrame(render);
     }
-  }, [shaders, objects, isPlaying, isVideoLoaded, setupVideoTexture]);
+  }, [evaluateFrame, drawFrame, getTimelineTime, tickClock, drawOverlay, isPlaying, loopWhilePaused, isExportingRef, audioStateRef]);
 
   // Initialize WebGL once when component mounts
   useEffect(() => {
@@ -341,16 +1067,26 @@ export function useWebGLRenderer({
         videoTextureRef.current = null;
       }
 
-      // Only attempt to destroy framebuffers if they exist
-      if (fbosRef.current && fbosRef.current.length > 0) {
+      feedbackRef.current.forEach(entry => entry.framebuffers.forEach(framebuffer => framebuffer.destroy()));
+      feedbackRef.current.clear();
+      emptyTextureRef.current?.destroy();
+      emptyTextureRef.current = null;
+      keyboardTextureRef.current?.destroy();
+      keyboardTextureRef.current = null;
+      audioTextureRef.current?.destroy();
+      audioTextureRef.current = null;
+      [objectLayersRef.current, objectMasksRef.current, lutTexturesRef.current].forEach(cache => {
+        cache.forEach(entry => entry.texture.destroy());
+        cache.clear();
+      });
+
+      if (fbPoolRef.current) {
         try {
-          fbosRef.current.forEach(fbo => {
-            if (fbo) fbo.destroy();
-          });
+          fbPoolRef.current.destroy();
         } catch (e) {
           console.warn('Error destroying framebuffers:', e);
         }
-        fbosRef.current = [];
+        fbPoolRef.current = null;
       }
 
       if (reglRef.current) {
@@ -364,38 +1100,53 @@ export function useWebGLRenderer({
     };
   }, [initWebGL]);
 
-  // Update shader commands when shaders or objects change
+  // Update shader commands when shaders change
   useEffect(() => {
     if (isInitialized) {
       updateShaderCommands();
     }
-  }, [shaders, objects, updateShaderCommands, isInitialized]);
+  }, [shaders, updateShaderCommands, isInitialized]);
 
-  // Handle canvas resize
+  // Upload newly loaded LUTs and free the ones that were removed
   useEffect(() => {
-    const handleResize = () => {
-      const canvas = canvasRef.current;
-      if (!canvas || !reglRef.current || !isInitialized) return;
+    const regl = reglRef.current;
+    if (!regl || !isInitialized) return;
 
-      // Update framebuffer sizes
-      fbosRef.current.forEach(fbo => {
-        try {
-          fbo.resize(canvas.width, canvas.height);
-        } catch (e) {
-          console.warn('Error resizing framebuffer:', e);
-        }
+    const cache = lutTexturesRef.current;
+    luts.forEach(lut => {
+      if (cache.has(lut.id)) return;
+      const atlas = packLutAtlas(lut);
+      // Half float keeps entries outside 0–1 and about 11 bits of precision
+      const halfFloat = targetTypeRef.current === 'half float';
+      const texture = regl.texture({
+        width: atlas.width,
+        height: atlas.height,
+        data: halfFloat ? atlas.pixels : quantizeLutPixels(atlas.pixels),
+        type: halfFloat ? 'half float' : 'uint8',
+        min: 'linear',
+        mag: 'linear',
+        wrap: 'clamp'
       });
-    };
-
-    window.addEventListener('resize', handleResize);
-    return () => {
-      window.removeEventListener('resize', handleResize);
-    };
-  }, [canvasRef, isInitialized]);
+      cache.set(lut.id, { texture, lut, tiles: atlas.tiles });
+    });
+    cache.forEach((entry, id) => {
+      if (luts.some(lut => lut.id === id)) return;
+      entry.texture.destroy();
+      cache.delete(id);
+    });
+  }, [luts, isInitialized]);
 
   return {
     initWebGL,
     updateShaderCommands,
+    validateShader,
+    // isWebGL2Ref is set before isInitialized, so this is current once the studio re-renders
+    supportsGlsl300: isInitialized && isWebGL2Ref.current,
+    evaluateFrame,
+    drawFrame,
+    captureFrame,
+    clearFeedback,
     render,
+    shaderErrors,
   };
 }
@@ -1,42 +1,45 @@
-interface Shader {
-  id: string;
-  name: string;
-  fragmentShader: string;
-  enabled: boolean;
-  uniforms: Record<string, number>;
-}
+import { Shader, SubPass } from '../types';
+
+// One Kawase iteration at half resolution, reading the sampler named by input.
+// texelScale is the input's texel size in units of this pass's own.
+const kawasePass = (name: string, input: string, offset: number, texelScale: number): SubPass => ({
+  name,
+  scale: 0.5,
+  fragmentShader: `#include "common"
+#include "kawase"
+uniform sampler2D ${input};
+uniform float u_strength;
+
+void main() {
+  gl_FragColor = kawaseBlur(${input}, v_texCoord, ${texelScale.toFixed(1)} / u_resolution * u_strength, ${offset.toFixed(1)});
+}`
+});
 
 export const defaultShaders: Shader[] = [
   {
     id: 'grayscale',
     name: 'Grayscale',
-    fragmentShader: `
-precision mediump float;
-uniform sampler2D u_texture;
-uniform vec2 u_resolution;
-uniform float u_time;
+    fragmentShader: `#include "common"
+#include "color"
 uniform float u_intensity;
-varying vec2 v_texCoord;
 
 void main() {
   vec4 color = texture2D(u_texture, v_texCoord);
-  float gray = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+  float gray = luminance(color.rgb);
   gl_FragColor = mix(color, vec4(gray, gray, gray, color.a), u_intensity);
 }`,
     enabled: true,
-    uniforms: { u_intensity: 1.0 }
+    uniforms: { u_intensity: 1.0 },
+    uniformSchema: {
+      u_intensity: { type: 'float', label: 'Intensity', default: 1.0, min: 0, max: 2, step: 0.01 }
+    }
   },
   {
     id: 'brightness',
     name: 'Brightness & Contrast',
-    fragmentShader: `
-precision mediump float;
-uniform sampler2D u_texture;
-uniform vec2 u_resolution;
-uniform float u_time;
+    fragmentShader: `#include "common"
 uniform float u_brightness;
 uniform float u_contrast;
-varying vec2 v_texCoord;
 
 void main() {
   vec4 color = texture2D(u_texture, v_texCoord);
@@ -50,46 +53,134 @@ void main() {
   gl_FragColor = color;
 }`,
     enabled: false,
-    uniforms: { u_brightness: 0.0, u_contrast: 1.0 }
+    uniforms: { u_brightness: 0.0, u_contrast: 1.0 },
+    uniformSchema: {
+      u_brightness: { type: 'float', label: 'Brightness', default: 0.0, min: -0.5, max: 0.5, step: 0.01 },
+      u_contrast: { type: 'float', label: 'Contrast', default: 1.0, min: 0.5, max: 3.0, step: 0.01 }
+    }
   },
   {
     id: 'blur',
-    name: 'Blur',
-    fragmentShader: `
-precision mediump float;
-uniform sampler2D u_texture;
-uniform vec2 u_resolution;
-uniform float u_time;
-uniform float u_strength;
-varying vec2 v_texCoord;
+    name: 'Gaussian Blur',
+    fragmentShader: `#include "common"
+#include "gaussian"
+uniform sampler2D u_pass_horizontal;
+uniform float u_radius;
 
 void main() {
-  vec2 texelSize = 1.0 / u_resolution;
-  vec4 color = vec4(0.0);
-  
-  // Simple box blur
-  for(int x = -2; x <= 2; x++) {
-    for(int y = -2; y <= 2; y++) {
-      vec2 offset = vec2(float(x), float(y)) * texelSize * u_strength;
-      color += texture2D(u_texture, v_texCoord + offset);
+  gl_FragColor = gaussianBlur(u_pass_horizontal, v_texCoord, vec2(0.0, 1.0 / u_resolution.y), u_radius);
+}`,
+    passes: [
+      {
+        name: 'horizontal',
+        fragmentShader: `#include "common"
+#include "gaussian"
+uniform float u_radius;
+
+void main() {
+  gl_FragColor = gaussianBlur(u_texture, v_texCoord, vec2(1.0 / u_resolution.x, 0.0), u_radius);
+}`
+      }
+    ],
+    enabled: false,
+    uniforms: { u_radius: 4.0 },
+    uniformSchema: {
+      u_radius: { type: 'float', label: 'Radius', default: 4.0, min: 0, max: 32, step: 0.1 }
     }
-  }
-  
-  gl_FragColor = color / 25.0; // 5x5 kernel
+  },
+  {
+    id: 'bloom',
+    name: 'Bloom',
+    fragmentShader: `#include "common"
+uniform sampler2D u_pass_blurY;
+uniform float u_intensity;
+
+void main() {
+  vec4 color = texture2D(u_texture, v_texCoord);
+  vec3 glow = texture2D(u_pass_blurY, v_texCoord).rgb;
+  gl_FragColor = vec4(color.rgb + glow * u_intensity, color.a);
 }`,
+    passes: [
+      {
+        name: 'bright',
+        scale: 0.5,
+        fragmentShader: `#include "common"
+#include "color"
+uniform float u_threshold;
+
+void main() {
+  // Each filtered tap averages 2x2 input texels, so four cover the 4x4 block
+  vec2 texel = 0.5 / u_resolution;
+  vec4 color = 0.25 * (
+    texture2D(u_texture, v_texCoord + texel) +
+    texture2D(u_texture, v_texCoord - texel) +
+    texture2D(u_texture, v_texCoord + vec2(texel.x, -texel.y)) +
+    texture2D(u_texture, v_texCoord + vec2(-texel.x, texel.y))
+  );
+  float knee = smoothstep(u_threshold, u_threshold + 0.1, luminance(color.rgb));
+  gl_FragColor = vec4(color.rgb * knee, 1.0);
+}`
+      },
+      {
+        name: 'blurX',
+        scale: 0.25,
+        fragmentShader: `#include "common"
+#include "gaussian"
+uniform sampler2D u_pass_bright;
+uniform float u_radius;
+
+void main() {
+  gl_FragColor = gaussianBlur(u_pass_bright, v_texCoord, vec2(0.5 / u_resolution.x, 0.0), u_radius);
+}`
+      },
+      {
+        name: 'blurY',
+        scale: 0.25,
+        fragmentShader: `#include "common"
+#include "gaussian"
+uniform sampler2D u_pass_blurX;
+uniform float u_radius;
+
+void main() {
+  gl_FragColor = gaussianBlur(u_pass_blurX, v_texCoord, vec2(0.0, 1.0 / u_resolution.y), u_radius);
+}`
+      }
+    ],
     enabled: false,
-    uniforms: { u_strength: 1.0 }
+    uniforms: { u_threshold: 0.7, u_intensity: 1.0, u_radius: 4.0 },
+    uniformSchema: {
+      u_threshold: { type: 'float', label: 'Threshold', default: 0.7, min: 0, max: 1, step: 0.01 },
+      u_intensity: { type: 'float', label: 'Intensity', default: 1.0, min: 0, max: 3, step: 0.01 },
+      u_radius: { type: 'float', label: 'Radius', default: 4.0, min: 0, max: 16, step: 0.1 }
+    }
+  },
+  {
+    id: 'kawase-blur',
+    name: 'Kawase Blur',
+    fragmentShader: `#include "common"
+uniform sampler2D u_pass_k3;
+
+void main() {
+  gl_FragColor = texture2D(u_pass_k3, v_texCoord);
+}`,
+    // Half resolution throughout; the first iteration reads the full-size input
+    passes: [
+      kawasePass('k0', 'u_texture0', 0, 0.5),
+      kawasePass('k1', 'u_pass_k0', 1, 1),
+      kawasePass('k2', 'u_pass_k1', 2, 1),
+      kawasePass('k3', 'u_pass_k2', 3, 1)
+    ],
+    enabled: false,
+    uniforms: { u_strength: 1.0 },
+    uniformSchema: {
+      u_strength: { type: 'float', label: 'Strength', default: 1.0, min: 0, max: 4, step: 0.05 }
+    }
   },
   {
     id: 'chromatic',
     name: 'Chromatic Aberration',
-    fragmentShader: `
-precision mediump float;
-uniform sampler2D u_texture;
-uniform vec2 u_resolution;
-uniform float u_time;
+    fragmentShader: `#include "common"
 uniform float u_strength;
-varying vec2 v_texCoord;
 
 void main() {
   vec2 uv = v_texCoord;
@@ -103,7 +194,27 @@ void main() {
   gl_FragColor = vec4(r, g, b, 1.0);
 }`,
     enabled: false,
-    uniforms: { u_strength: 0.01 }
+    uniforms: { u_strength: 0.01 },
+    uniformSchema: {
+      u_strength: { type: 'float', label: 'Strength', default: 0.01, min: 0, max: 0.1, step: 0.001 }
+    }
+  },
+  {
+    id: 'lut',
+    name: 'Color LUT',
+    fragmentShader: `#include "common"
+#include "lut"
+uniform float u_strength;
+
+void main() {
+  vec4 color = texture2D(u_texture, v_texCoord);
+  gl_FragColor = vec4(mix(color.rgb, applyLut(color.rgb), u_strength), color.a);
+}`,
+    enabled: false,
+    uniforms: { u_strength: 1.0 },
+    uniformSchema: {
+      u_strength: { type: 'float', label: 'Strength', default: 1.0, min: 0, max: 1, step: 0.01 }
+    }
   }
 ];
 
@@ -115,4 +226,15 @@ varying vec2 v_texCoord;
 void main() {
   gl_Position = vec4(a_position, 0.0, 1.0);
   v_texCoord = a_texCoord;
-}`; 
\ No newline at end of file
+}`; 
+
+// Paired with fragment shaders that open with #version 300 es (WebGL2 only)
+export const vertexShaderSource300 = `#version 300 es
+in vec2 a_position;
+in vec2 a_texCoord;
+out vec2 v_texCoord;
+
+void main() {
+  gl_Position = vec4(a_position, 0.0, 1.0);
+  v_texCoord = a_texCoord;
+}`;
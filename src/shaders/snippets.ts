@@ -0,0 +1,209 @@
+import { ShaderSnippet } from '../types';
+
+export interface BuiltinSnippet extends ShaderSnippet {
+  description: string;
+}
+
+// Everything but "common" works in both GLSL ES 1.00 and 3.00 shaders once a
+// float precision is set
+export const builtinSnippets: BuiltinSnippet[] = [
+  {
+    name: 'common',
+    description: 'Precision, u_texture, u_resolution, u_time and v_texCoord (GLSL ES 1.00)',
+    code: `precision mediump float;
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+uniform float u_time;
+varying vec2 v_texCoord;`,
+  },
+  {
+    name: 'math',
+    description: 'PI, TAU, rotate2d(angle) and remap(value, inMin, inMax, outMin, outMax)',
+    code: `#define PI 3.14159265359
+#define TAU 6.28318530718
+
+mat2 rotate2d(float angle) {
+  float c = cos(angle);
+  float s = sin(angle);
+  return mat2(c, s, -s, c);
+}
+
+float remap(float value, float inMin, float inMax, float outMin, float outMax) {
+  return outMin + (value - inMin) * (outMax - outMin) / (inMax - inMin);
+}`,
+  },
+  {
+    name: 'color',
+    description: 'luminance(rgb), rgb2hsv(rgb) and hsv2rgb(hsv)',
+    code: `float luminance(vec3 color) {
+  return dot(color, vec3(0.299, 0.587, 0.114));
+}
+
+vec3 rgb2hsv(vec3 c) {
+  vec4 K = vec4(0.0, -1.0 / 3.0, 2.0 / 3.0, -1.0);
+  vec4 p = mix(vec4(c.bg, K.wz), vec4(c.gb, K.xy), step(c.b, c.g));
+  vec4 q = mix(vec4(p.xyw, c.r), vec4(c.r, p.yzx), step(p.x, c.r));
+  float d = q.x - min(q.w, q.y);
+  float e = 1.0e-10;
+  return vec3(abs(q.z + (q.w - q.y) / (6.0 * d + e)), d / (q.x + e), q.x);
+}
+
+vec3 hsv2rgb(vec3 c) {
+  vec4 K = vec4(1.0, 2.0 / 3.0, 1.0 / 3.0, 3.0);
+  vec3 p = abs(fract(c.xxx + K.xyz) * 6.0 - K.www);
+  return c.z * mix(K.xxx, clamp(p - K.xxx, 0.0, 1.0), c.y);
+}`,
+  },
+  {
+    name: 'noise',
+    description: 'hash12(p), valueNoise(p) and fbm(p) with five octaves',
+    code: `float hash12(vec2 p) {
+  vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+  p3 += dot(p3, p3.yzx + 33.33);
+  return fract((p3.x + p3.y) * p3.z);
+}
+
+float valueNoise(vec2 p) {
+  vec2 i = floor(p);
+  vec2 f = fract(p);
+  vec2 u = f * f * (3.0 - 2.0 * f);
+  return mix(
+    mix(hash12(i), hash12(i + vec2(1.0, 0.0)), u.x),
+    mix(hash12(i + vec2(0.0, 1.0)), hash12(i + vec2(1.0, 1.0)), u.x),
+    u.y
+  );
+}
+
+float fbm(vec2 p) {
+  float value = 0.0;
+  float amplitude = 0.5;
+  for (int i = 0; i < 5; i++) {
+    value += amplitude * valueNoise(p);
+    p *= 2.0;
+    amplitude *= 0.5;
+  }
+  return value;
+}`,
+  },
+  {
+    name: 'sdf',
+    description: 'sdCircle, sdBox, sdSegment and opSmoothUnion distance functions',
+    code: `float sdCircle(vec2 p, float radius) {
+  return length(p) - radius;
+}
+
+float sdBox(vec2 p, vec2 halfSize) {
+  vec2 d = abs(p) - halfSize;
+  return length(max(d, 0.0)) + min(max(d.x, d.y), 0.0);
+}
+
+float sdSegment(vec2 p, vec2 a, vec2 b) {
+  vec2 pa = p - a;
+  vec2 ba = b - a;
+  float h = clamp(dot(pa, ba) / dot(ba, ba), 0.0, 1.0);
+  return length(pa - ba * h);
+}
+
+float opSmoothUnion(float d1, float d2, float k) {
+  float h = clamp(0.5 + 0.5 * (d2 - d1) / k, 0.0, 1.0);
+  return mix(d2, d1, h) - k * h * (1.0 - h);
+}`,
+  },
+  {
+    name: 'gaussian',
+    description: 'gaussianBlur(tex, uv, direction, sigma): one axis of a separable Gaussian blur',
+    code: `#if __VERSION__ >= 300
+#define GAUSSIAN_SAMPLE texture
+#else
+#define GAUSSIAN_SAMPLE texture2D
+#endif
+
+#define GAUSSIAN_TAPS 16
+
+// direction is one texel along the blurred axis and sigma is in texels. Run it
+// across in one pass and down in the next for the full 2D blur.
+vec4 gaussianBlur(sampler2D tex, vec2 uv, vec2 direction, float sigma) {
+  if (sigma < 0.01) return GAUSSIAN_SAMPLE(tex, uv);
+  // Taps reach three sigma; wide kernels space them out and let filtering fill the gaps
+  float spacing = max(1.0, 3.0 * sigma / float(GAUSSIAN_TAPS));
+  vec4 sum = GAUSSIAN_SAMPLE(tex, uv);
+  float total = 1.0;
+  for (int i = 1; i <= GAUSSIAN_TAPS; i++) {
+    float x = float(i) * spacing;
+    if (x > 3.0 * sigma) break;
+    float weight = exp(-0.5 * x * x / (sigma * sigma));
+    sum += (GAUSSIAN_SAMPLE(tex, uv + direction * x) + GAUSSIAN_SAMPLE(tex, uv - direction * x)) * weight;
+    total += 2.0 * weight;
+  }
+  return sum / total;
+}`,
+  },
+  {
+    name: 'kawase',
+    description: 'kawaseBlur(tex, uv, texel, offset): one iteration of a Kawase blur',
+    code: `#if __VERSION__ >= 300
+#define KAWASE_SAMPLE texture
+#else
+#define KAWASE_SAMPLE texture2D
+#endif
+
+// Four filtered taps offset diagonally by offset + 0.5 texels. Chained passes
+// with offsets 0, 1, 2, 3 approximate a wide Gaussian at a fraction of the cost.
+vec4 kawaseBlur(sampler2D tex, vec2 uv, vec2 texel, float offset) {
+  vec2 d = (offset + 0.5) * texel;
+  return 0.25 * (
+    KAWASE_SAMPLE(tex, uv + d) +
+    KAWASE_SAMPLE(tex, uv - d) +
+    KAWASE_SAMPLE(tex, uv + vec2(d.x, -d.y)) +
+    KAWASE_SAMPLE(tex, uv + vec2(-d.x, d.y))
+  );
+}`,
+  },
+  {
+    name: 'lut',
+    description: 'applyLut(rgb) grades a colour with the LUT picked on the shader card',
+    code: `#if __VERSION__ >= 300
+#define LUT_SAMPLE texture
+#else
+#define LUT_SAMPLE texture2D
+#endif
+
+// Atlas coordinates of a 4096-wide atlas need more than mediump's 10 bits
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+#define LUT_PRECISION highp
+#else
+#define LUT_PRECISION mediump
+#endif
+
+uniform sampler2D u_lut;
+uniform LUT_PRECISION float u_lutSize; // Entries per axis, 0 when no LUT is picked
+uniform LUT_PRECISION vec2 u_lutTiles; // Slice grid of a 3D LUT atlas, 0 for a 1D LUT
+uniform vec3 u_lutDomainMin;
+uniform vec3 u_lutDomainMax;
+
+// One blue slice of the atlas, bilinear in red and green
+vec3 lutSlice(LUT_PRECISION vec2 rg, LUT_PRECISION float slice) {
+  LUT_PRECISION float row = floor((slice + 0.5) / u_lutTiles.x);
+  LUT_PRECISION vec2 origin = vec2(slice - row * u_lutTiles.x, row) * u_lutSize;
+  return LUT_SAMPLE(u_lut, (origin + rg + 0.5) / (u_lutTiles * u_lutSize)).rgb;
+}
+
+vec3 applyLut(vec3 color) {
+  if (u_lutSize < 2.0) return color;
+  LUT_PRECISION vec3 p = clamp((color - u_lutDomainMin) / (u_lutDomainMax - u_lutDomainMin), 0.0, 1.0) * (u_lutSize - 1.0);
+
+  if (u_lutTiles.x < 0.5) {
+    LUT_PRECISION vec3 x = (p + 0.5) / u_lutSize;
+    return vec3(
+      LUT_SAMPLE(u_lut, vec2(x.r, 0.5)).r,
+      LUT_SAMPLE(u_lut, vec2(x.g, 0.5)).g,
+      LUT_SAMPLE(u_lut, vec2(x.b, 0.5)).b
+    );
+  }
+
+  // Trilinear: the texture filters within each slice, blue is mixed here
+  float slice = floor(p.b);
+  return mix(lutSlice(p.rg, slice), lutSlice(p.rg, min(slice + 1.0, u_lutSize - 1.0)), p.b - slice);
+}`,
+  },
+];
@@ -1,5 +1,12 @@
+// Where objects are composited into the shader chain
+export interface ObjectPlacement {
+  layer: 'before' | 'after' | 'top';
+  shaderId?: string; // The pass objects follow, for 'after'
+}
+
 export interface CanvasObject {
   id: string;
+  name: string; // Binding name, exposed to shaders as u_obj_<name>_pos etc.
   type: 'text' | 'rect' | 'circle';
   x: number;
   y: number;
@@ -9,12 +16,197 @@ export interface CanvasObject {
   color: string;
   rotation: number;
   visible: boolean;
+  placement?: ObjectPlacement; // Falls back to the pipeline's objectPlacement
+}
+
+export type UniformType = 'float' | 'int' | 'bool' | 'vec2' | 'vec3' | 'vec4' | 'color' | 'enum';
+
+// Colors and vectors are stored as number arrays, colors as normalized RGB
+export type UniformValue = number | boolean | number[];
+
+export interface UniformOption {
+  label: string;
+  value: number;
+}
+
+export interface UniformDescriptor {
+  type: UniformType;
+  label: string;
+  default: UniformValue;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: UniformOption[]; // Only used by 'enum' uniforms
+}
+
+// What a pass sees as u_prevFrame: nothing, its own last output, or the last final composite
+export type FeedbackMode = 'none' | 'self' | 'final';
+
+// Limits a pass to the region covered by one object (or everything outside it)
+export interface PassMask {
+  objectId: string;
+  invert: boolean;
+}
+
+// How a pass's output is laid over its input
+export type BlendMode = 'normal' | 'add' | 'multiply' | 'screen' | 'overlay' | 'difference';
+
+export interface PassBlend {
+  mode: BlendMode;
+  opacity: number; // 0 shows the input, 1 the fully blended output
+}
+
+// Audio features a numeric uniform can follow: overall loudness, a frequency band or the beat pulse
+export type AudioBand = 'level' | 'low' | 'mid' | 'high' | 'beat';
+
+export interface AudioBinding {
+  band: AudioBand;
+  gain: number; // Fraction of the uniform's range added at full band level; negative pushes it down
+  smoothing: number; // 0 follows the band exactly, towards 1 it lags more
+}
+
+// Where audio-reactive uniforms listen: nothing, the source's soundtrack or a separate file
+export type AudioSourceMode = 'off' | 'source' | 'file';
+
+// An internal pass of a multi-pass effect. Later passes and the effect's own
+// fragmentShader read its result as u_pass_<name>.
+export interface SubPass {
+  name: string;
+  fragmentShader: string;
+  scale?: number; // Size relative to the effect's output, e.g. 0.5 for half resolution
 }
 
 export interface Shader {
   id: string;
   name: string;
-  fragmentShader: string;
+  fragmentShader: string; // The final pass when the shader has sub-passes
+  passes?: SubPass[]; // Rendered in order before fragmentShader
   enabled: boolean;
-  uniforms: Record<string, number>;
-} 
\ No newline at end of file
+  uniforms: Record<string, UniformValue>;
+  uniformSchema: Record<string, UniformDescriptor>;
+  feedback?: FeedbackMode;
+  mask?: PassMask;
+  blend?: PassBlend; // Normal at full opacity when unset
+  bypass?: boolean; // Keeps running but shows its input
+  solo?: boolean; // While any pass is soloed, the others are bypassed
+  audio?: Record<string, AudioBinding>; // Uniform name to the band that modulates it
+  expressions?: Record<string, string>; // Uniform name to an expression that sets it every frame
+  lut?: string; // Id of the ColorLut bound to u_lut
+}
+
+// A colour lookup table loaded from a .cube file
+export interface ColorLut {
+  id: string;
+  name: string;
+  kind: '1d' | '3d';
+  size: number; // Entries per axis
+  domainMin: number[];
+  domainMax: number[];
+  data: string; // Base64 of little-endian float32 RGB entries in .cube order
+}
+
+// Reusable GLSL pulled into shaders with #include "name"
+export interface ShaderSnippet {
+  name: string;
+  code: string;
+}
+
+export type EasingType = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bezier' | 'step';
+
+export type AnimatableObjectProperty = 'x' | 'y' | 'width' | 'height' | 'rotation' | 'color';
+
+export type AnimationTarget =
+  | { kind: 'uniform'; shaderId: string; uniform: string }
+  | { kind: 'object'; objectId: string; property: AnimatableObjectProperty };
+
+// Easing describes the segment from this keyframe to the next one
+export interface Keyframe {
+  id: string;
+  time: number;
+  value: number[]; // Scalars are stored as [v], colors as normalized RGB
+  easing: EasingType;
+  bezier?: [number, number, number, number];
+}
+
+export interface AnimationTrack {
+  id: string;
+  target: AnimationTarget;
+  keyframes: Keyframe[];
+}
+
+export interface Timeline {
+  duration: number;
+  tracks: AnimationTrack[];
+}
+
+// Media time follows the source video (or a project clock for stills and live
+// sources) and stops when paused; wall time runs from when the studio opened
+export type ClockMode = 'media' | 'wall';
+
+// What u_time, u_deltaTime and u_duration read for one frame
+export interface FrameClock {
+  time: number;
+  deltaTime: number;
+  duration: number;
+}
+
+export type LfoShape = 'sine' | 'square' | 'saw' | 'random';
+
+// A low-frequency oscillator that swings its targets around their own values.
+// Expressions can also read it as lfo("name").
+export interface Lfo {
+  id: string;
+  name: string;
+  shape: LfoShape;
+  rate: number; // Cycles per second
+  depth: number; // Peak offset, in each target's own units
+  targets: AnimationTarget[];
+}
+
+export type PipelineMode = 'stack' | 'graph';
+
+// A shader pass in the node graph. Inputs are node ids (or the source) feeding
+// u_texture0, u_texture1, …; null inputs read the source frame.
+export interface GraphNode {
+  id: string;
+  shaderId: string;
+  inputs: (string | null)[];
+  x: number;
+  y: number;
+}
+
+export interface Pipeline {
+  mode: PipelineMode;
+  nodes: GraphNode[];
+  output: string | null;
+  objectPlacement: ObjectPlacement;
+}
+
+// The part of the studio that undo/redo tracks
+export interface StudioState {
+  shaders: Shader[];
+  objects: CanvasObject[];
+  objectsVisible: boolean;
+  timeline: Timeline;
+  pipeline: Pipeline;
+  snippets: ShaderSnippet[];
+  luts: ColorLut[];
+  lfos: Lfo[];
+  clockMode: ClockMode;
+}
+
+export interface ShaderError {
+  line: number | null;
+  column: number | null;
+  message: string;
+}
+
+export type SourceMediaType = 'video' | 'image';
+
+// Where the pipeline's input comes from. File sources hold an object URL that
+// only lives for the current session.
+export type InputSource =
+  | { kind: 'url'; url: string; media: SourceMediaType }
+  | { kind: 'file'; name: string; url: string; media: SourceMediaType }
+  | { kind: 'webcam' }
+  | { kind: 'screen' };
@@ -0,0 +1,160 @@
+import {
+  AnimatableObjectProperty,
+  AnimationTarget,
+  AnimationTrack,
+  CanvasObject,
+  EasingType,
+  Keyframe,
+  Shader,
+  Timeline,
+  UniformType,
+} from '../types';
+import { hexToRgb, normalizeUniformValue, rgbToHex } from './uniforms';
+
+export const EASING_TYPES: EasingType[] = ['linear', 'ease-in', 'ease-out', 'ease-in-out', 'bezier', 'step'];
+
+export const ANIMATABLE_OBJECT_PROPERTIES: AnimatableObjectProperty[] = ['x', 'y', 'width', 'height', 'rotation', 'color'];
+
+export const ANIMATABLE_UNIFORM_TYPES: UniformType[] = ['float', 'int', 'vec2', 'vec3', 'vec4', 'color'];
+
+export const DEFAULT_BEZIER: [number, number, number, number] = [0.25, 0.1, 0.25, 1];
+
+export function createEmptyTimeline(): Timeline {
+  return { duration: 10, tracks: [] };
+}
+
+// CSS-style cubic-bezier timing function: solve x(s) = t, return y(s)
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number, t: number): number {
+  const sample = (a: number, b: number, s: number) =>
+    3 * a * s * (1 - s) * (1 - s) + 3 * b * s * s * (1 - s) + s * s * s;
+
+  let lo = 0;
+  let hi = 1;
+  let s = t;
+  for (let i = 0; i < 24; i++) {
+    const x = sample(x1, x2, s);
+    if (Math.abs(x - t) < 1e-5) break;
+    if (x < t) lo = s; else hi = s;
+    s = (lo + hi) / 2;
+  }
+  return sample(y1, y2, s);
+}
+
+export function applyEasing(keyframe: Keyframe, t: number): number {
+  switch (keyframe.easing) {
+    case 'ease-in':
+      return t * t;
+    case 'ease-out':
+      return 1 - (1 - t) * (1 - t);
+    case 'ease-in-out':
+      return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+    case 'bezier': {
+      const [x1, y1, x2, y2] = keyframe.bezier ?? DEFAULT_BEZIER;
+      return cubicBezier(x1, y1, x2, y2, t);
+    }
+    case 'step':
+      return 0;
+    default:
+      return t;
+  }
+}
+
+export function evaluateTrack(track: AnimationTrack, time: number): number[] | null {
+  const keyframes = [...track.keyframes].sort((a, b) => a.time - b.time);
+  if (keyframes.length === 0) return null;
+
+  if (time <= keyframes[0].time) return keyframes[0].value;
+
+  const last = keyframes[keyframes.length - 1];
+  if (time >= last.time) return last.value;
+
+  const nextIndex = keyframes.findIndex(keyframe => keyframe.time > time);
+  const from = keyframes[nextIndex - 1];
+  const to = keyframes[nextIndex];
+  const progress = applyEasing(from, (time - from.time) / (to.time - from.time));
+
+  return from.value.map((value, i) => value + ((to.value[i] ?? value) - value) * progress);
+}
+
+// Read the current, un-animated value of a target
+export function getTargetValue(target: AnimationTarget, shaders: Shader[], objects: CanvasObject[]): number[] | null {
+  if (target.kind === 'uniform') {
+    const shader = shaders.find(s => s.id === target.shaderId);
+    const descriptor = shader?.uniformSchema[target.uniform];
+    if (!shader || !descriptor) return null;
+
+    const value = normalizeUniformValue(descriptor, shader.uniforms[target.uniform]);
+    if (typeof value === 'boolean') return null;
+    return Array.isArray(value) ? value : [value];
+  }
+
+  const obj = objects.find(o => o.id === target.objectId);
+  if (!obj) return null;
+  return target.property === 'color' ? hexToRgb(obj.color) : [obj[target.property]];
+}
+
+export function getTargetLabel(target: AnimationTarget, shaders: Shader[], objects: CanvasObject[]): string {
+  if (target.kind === 'uniform') {
+    const shader = shaders.find(s => s.id === target.shaderId);
+    const label = shader?.uniformSchema[target.uniform]?.label ?? target.uniform;
+    return `${shader?.name ?? 'Missing shader'} › ${label}`;
+  }
+
+  const index = objects.findIndex(o => o.id === target.objectId);
+  const obj = objects[index];
+  return `${obj ? `Object ${index} (${obj.type})` : 'Missing object'} › ${target.property}`;
+}
+
+export function isSameTarget(a: AnimationTarget, b: AnimationTarget): boolean {
+  if (a.kind === 'uniform' && b.kind === 'uniform') {
+    return a.shaderId === b.shaderId && a.uniform === b.uniform;
+  }
+  if (a.kind === 'object' && b.kind === 'object') {
+    return a.objectId === b.objectId && a.property === b.property;
+  }
+  return false;
+}
+
+// Resolve every track at the given time, returning animated copies of shaders and objects
+export function applyTimeline(
+  shaders: Shader[],
+  objects: CanvasObject[],
+  timeline: Timeline,
+  time: number
+): { shaders: Shader[]; objects: CanvasObject[] } {
+  if (timeline.tracks.length === 0) return { shaders, objects };
+
+  const uniformOverrides = new Map<string, Record<string, number | number[]>>();
+  const objectOverrides = new Map<string, Partial<CanvasObject>>();
+
+  timeline.tracks.forEach(track => {
+    const value = evaluateTrack(track, time);
+    if (!value) return;
+
+    const { target } = track;
+    if (target.kind === 'uniform') {
+      const overrides = uniformOverrides.get(target.shaderId) ?? {};
+      overrides[target.uniform] = value.length === 1 ? value[0] : value;
+      uniformOverrides.set(target.shaderId, overrides);
+    } else {
+      const overrides = objectOverrides.get(target.objectId) ?? {};
+      if (target.property === 'color') {
+        overrides.color = rgbToHex(value);
+      } else {
+        overrides[target.property] = value[0];
+      }
+      objectOverrides.set(target.objectId, overrides);
+    }
+  });
+
+  return {
+    shaders: shaders.map(shader => {
+      const overrides = uniformOverrides.get(shader.id);
+      return overrides ? { ...shader, uniforms: { ...shader.uniforms, ...overrides } } : shader;
+    }),
+    objects: objects.map(obj => {
+      const overrides = objectOverrides.get(obj.id);
+      return overrides ? { ...obj, ...overrides } : obj;
+    }),
+  };
+}
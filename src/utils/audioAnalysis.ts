@@ -0,0 +1,137 @@
+import { AudioBand, Shader, UniformType } from '../types';
+import { normalizeUniformValue } from './uniforms';
+
+// The u_audioSpectrum layout matches Shadertoy's audio texture: 512 texels wide,
+// the spectrum in the bottom row (y = 0.25) and the waveform in the top row (y = 0.75)
+export const AUDIO_TEXTURE_WIDTH = 512;
+export const AUDIO_TEXTURE_ROWS = 2;
+export const AUDIO_FFT_SIZE = AUDIO_TEXTURE_WIDTH * 2;
+
+// Byte spectrum values span this range
+export const AUDIO_MIN_DECIBELS = -100;
+export const AUDIO_MAX_DECIBELS = -30;
+
+export const AUDIO_BANDS: { value: AudioBand; label: string }[] = [
+  { value: 'level', label: 'Level' },
+  { value: 'low', label: 'Low' },
+  { value: 'mid', label: 'Mid' },
+  { value: 'high', label: 'High' },
+  { value: 'beat', label: 'Beat' },
+];
+
+export const AUDIO_BINDABLE_TYPES: UniformType[] = ['float', 'int'];
+
+export type AudioBandValues = Record<AudioBand, number>;
+
+export const SILENT_BANDS: AudioBandValues = { level: 0, low: 0, mid: 0, high: 0, beat: 0 };
+
+// Band edges in Hz
+const BAND_RANGES: Record<'low' | 'mid' | 'high', [number, number]> = {
+  low: [20, 250],
+  mid: [250, 4000],
+  high: [4000, 16000],
+};
+
+const BEAT_HISTORY = 60; // Frames, about a second
+const BEAT_THRESHOLD = 1.8; // Times the recent average low-band power
+const BEAT_MIN_POWER = 1e-4; // Quieter than this is silence, not a beat
+const BEAT_MIN_INTERVAL = 0.25; // Seconds
+const BEAT_DECAY = 8; // Per second
+
+export interface BeatDetector {
+  history: number[];
+  lastBeat: number;
+}
+
+export function createBeatDetector(): BeatDetector {
+  return { history: [], lastBeat: -Infinity };
+}
+
+// Spectrum bytes between two frequencies, averaged to 0-1
+function bandLevel(spectrum: Uint8Array, sampleRate: number, from: number, to: number): number {
+  const binWidth = sampleRate / AUDIO_FFT_SIZE;
+  const start = Math.max(0, Math.floor(from / binWidth));
+  const end = Math.min(spectrum.length, Math.ceil(to / binWidth));
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += spectrum[i];
+  return end > start ? sum / ((end - start) * 255) : 0;
+}
+
+// Bytes are decibels, so beats are judged on power relative to full scale
+function bandPower(spectrum: Uint8Array, sampleRate: number, from: number, to: number): number {
+  const range = AUDIO_MAX_DECIBELS - AUDIO_MIN_DECIBELS;
+  return Math.pow(10, (bandLevel(spectrum, sampleRate, from, to) - 1) * range / 10);
+}
+
+// RMS of a waveform centred on 128, scaled so a full-scale sine reads 1
+function waveformLevel(waveform: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < waveform.length; i++) {
+    const sample = (waveform[i] - 128) / 128;
+    sum += sample * sample;
+  }
+  return Math.min(1, Math.sqrt(sum / waveform.length) * Math.SQRT2);
+}
+
+// A beat is low-band power well above its average over the last second. The
+// pulse jumps to 1 on each beat and fades out over the next few frames.
+function detectBeat(detector: BeatDetector, power: number, time: number): number {
+  const { history } = detector;
+  const average = history.length > 0 ? history.reduce((sum, value) => sum + value, 0) / history.length : power;
+  history.push(power);
+  if (history.length > BEAT_HISTORY) history.shift();
+
+  if (power > BEAT_MIN_POWER && power > average * BEAT_THRESHOLD && time - detector.lastBeat > BEAT_MIN_INTERVAL) {
+    detector.lastBeat = time;
+  }
+  return Math.exp(-(time - detector.lastBeat) * BEAT_DECAY);
+}
+
+export function analyseAudio(
+  spectrum: Uint8Array,
+  waveform: Uint8Array,
+  sampleRate: number,
+  time: number,
+  detector: BeatDetector
+): AudioBandValues {
+  return {
+    level: waveformLevel(waveform),
+    low: bandLevel(spectrum, sampleRate, ...BAND_RANGES.low),
+    mid: bandLevel(spectrum, sampleRate, ...BAND_RANGES.mid),
+    high: bandLevel(spectrum, sampleRate, ...BAND_RANGES.high),
+    beat: detectBeat(detector, bandPower(spectrum, sampleRate, ...BAND_RANGES.low), time),
+  };
+}
+
+// Offset audio-bound uniforms from their set value by gain times the band level,
+// as a share of the uniform's range. Smoothed levels carry over between frames
+// in `smoothed`, keyed by shader and uniform.
+export function applyAudioBindings(
+  shaders: Shader[],
+  bands: AudioBandValues,
+  smoothed: Map<string, number>,
+  deltaTime: number
+): Shader[] {
+  return shaders.map(shader => {
+    if (!shader.audio) return shader;
+
+    const uniforms = { ...shader.uniforms };
+    Object.entries(shader.audio).forEach(([name, binding]) => {
+      const descriptor = shader.uniformSchema[name];
+      if (!descriptor || !AUDIO_BINDABLE_TYPES.includes(descriptor.type)) return;
+
+      // Smoothing is per 60 Hz frame, whatever the actual frame rate
+      const key = `${shader.id}:${name}`;
+      const keep = Math.pow(Math.min(0.99, Math.max(0, binding.smoothing)), deltaTime * 60);
+      const level = (smoothed.get(key) ?? bands[binding.band]) * keep + bands[binding.band] * (1 - keep);
+      smoothed.set(key, level);
+
+      const span = descriptor.min !== undefined && descriptor.max !== undefined ? descriptor.max - descriptor.min : 1;
+      let value = (normalizeUniformValue(descriptor, uniforms[name]) as number) + level * binding.gain * span;
+      if (descriptor.min !== undefined) value = Math.max(descriptor.min, value);
+      if (descriptor.max !== undefined) value = Math.min(descriptor.max, value);
+      uniforms[name] = descriptor.type === 'int' ? Math.round(value) : value;
+    });
+    return { ...shader, uniforms };
+  });
+}
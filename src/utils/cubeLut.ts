@@ -0,0 +1,185 @@
+import { ColorLut } from '../types';
+
+// Reads Adobe/Resolve .cube colour lookup tables and packs them into textures.
+// Entries are stored as parsed, as 32-bit floats, and only lose precision when
+// they are uploaded to the GPU.
+
+export const CUBE_FILE_EXTENSION = '.cube';
+
+export class CubeParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CubeParseError';
+  }
+}
+
+// 1D tables are one texture row, so they stay within common texture size limits
+const MAX_1D_SIZE = 4096;
+const MAX_3D_SIZE = 256;
+
+const parseTriple = (args: string[], keyword: string, lineNumber: number): number[] => {
+  const values = args.map(Number);
+  if (values.length !== 3 || !values.every(Number.isFinite)) {
+    throw new CubeParseError(`Line ${lineNumber}: ${keyword} needs three numbers`);
+  }
+  return values;
+};
+
+export function parseCube(text: string, id: string, fallbackName: string): ColorLut {
+  let kind: ColorLut['kind'] | null = null;
+  let size = 0;
+  let name = fallbackName;
+  let domainMin = [0, 0, 0];
+  let domainMax = [1, 1, 1];
+  const entries: number[] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/#.*$/, '').trim();
+    if (!line) continue;
+    const lineNumber = i + 1;
+
+    const [keyword, ...args] = line.split(/\s+/);
+    switch (keyword) {
+      case 'TITLE': {
+        const title = line.slice(keyword.length).trim().replace(/^"|"$/g, '');
+        if (title) name = title;
+        continue;
+      }
+      case 'LUT_1D_SIZE':
+      case 'LUT_3D_SIZE': {
+        const max = keyword === 'LUT_1D_SIZE' ? MAX_1D_SIZE : MAX_3D_SIZE;
+        size = parseInt(args[0]);
+        if (!Number.isInteger(size) || size < 2 || size > max) {
+          throw new CubeParseError(`Line ${lineNumber}: ${keyword} must be between 2 and ${max}`);
+        }
+        kind = keyword === 'LUT_1D_SIZE' ? '1d' : '3d';
+        continue;
+      }
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(args, keyword, lineNumber);
+        continue;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(args, keyword, lineNumber);
+        continue;
+      // Resolve's variant gives one range for all three channels
+      case 'LUT_1D_INPUT_RANGE':
+      case 'LUT_3D_INPUT_RANGE': {
+        const [min, max] = args.map(Number);
+        if (!Number.isFinite(min) || !Number.isFinite(max)) {
+          throw new CubeParseError(`Line ${lineNumber}: ${keyword} needs two numbers`);
+        }
+        domainMin = [min, min, min];
+        domainMax = [max, max, max];
+        continue;
+      }
+    }
+
+    if (!/^[-+.\d]/.test(keyword)) continue; // Unknown keywords are skipped, as the spec allows
+    entries.push(...parseTriple([keyword, ...args], 'A table entry', lineNumber));
+  }
+
+  if (!kind) {
+    throw new CubeParseError('No LUT_1D_SIZE or LUT_3D_SIZE found; this is not a .cube LUT');
+  }
+  const expected = (kind === '1d' ? size : size ** 3) * 3;
+  if (entries.length !== expected) {
+    throw new CubeParseError(`Expected ${expected / 3} table entries for a ${kind.toUpperCase()} LUT of size ${size}, found ${entries.length / 3}`);
+  }
+  if (domainMin.some((min, i) => min >= domainMax[i])) {
+    throw new CubeParseError('DOMAIN_MIN must be below DOMAIN_MAX');
+  }
+
+  return { id, name, kind, size, domainMin, domainMax, data: encodeEntries(Float32Array.from(entries)) };
+}
+
+function encodeBytes(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large tables don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeBytes(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Little-endian, so project files read the same on any machine
+function encodeEntries(values: Float32Array): string {
+  const view = new DataView(new ArrayBuffer(values.length * 4));
+  values.forEach((value, i) => view.setFloat32(i * 4, value, true));
+  return encodeBytes(new Uint8Array(view.buffer));
+}
+
+function decodeEntries(data: string): Float32Array {
+  const bytes = decodeBytes(data);
+  if (bytes.length % 4 !== 0) throw new RangeError('LUT data is not a whole number of floats');
+  const view = new DataView(bytes.buffer);
+  const values = new Float32Array(bytes.length / 4);
+  for (let i = 0; i < values.length; i++) values[i] = view.getFloat32(i * 4, true);
+  return values;
+}
+
+export interface LutAtlas {
+  width: number;
+  height: number;
+  // Slices per row and rows of the atlas; [0, 0] for a 1D LUT
+  tiles: [number, number];
+  pixels: Float32Array; // RGBA, unclamped
+}
+
+// A 3D LUT becomes a near-square grid of size x size slices, one per blue step,
+// with red along x and green along y inside each. A 1D LUT is a single row.
+export function packLutAtlas(lut: ColorLut): LutAtlas {
+  const rgb = decodeEntries(lut.data);
+  const n = lut.size;
+
+  if (lut.kind === '1d') {
+    const pixels = new Float32Array(n * 4);
+    for (let i = 0; i < n; i++) {
+      pixels.set(rgb.subarray(i * 3, i * 3 + 3), i * 4);
+      pixels[i * 4 + 3] = 1;
+    }
+    return { width: n, height: 1, tiles: [0, 0], pixels };
+  }
+
+  let columns = 1;
+  while (columns * columns < n) columns++;
+  const rows = Math.ceil(n / columns);
+  const width = columns * n;
+  const height = rows * n;
+  const pixels = new Float32Array(width * height * 4);
+
+  // .cube order: red changes fastest, then green, then blue
+  for (let b = 0; b < n; b++) {
+    const originX = (b % columns) * n;
+    const originY = Math.floor(b / columns) * n;
+    for (let g = 0; g < n; g++) {
+      for (let r = 0; r < n; r++) {
+        const src = (r + g * n + b * n * n) * 3;
+        const dst = ((originY + g) * width + originX + r) * 4;
+        pixels.set(rgb.subarray(src, src + 3), dst);
+        pixels[dst + 3] = 1;
+      }
+    }
+  }
+  return { width, height, tiles: [columns, rows], pixels };
+}
+
+// For GPUs without half-float textures, clamped to 0–1 and rounded to 8 bits
+export function quantizeLutPixels(pixels: Float32Array): Uint8Array {
+  return Uint8Array.from(pixels, value => Math.round(Math.min(1, Math.max(0, value)) * 255));
+}
+
+export function isValidLutData(lut: Pick<ColorLut, 'kind' | 'size' | 'data'>): boolean {
+  try {
+    return decodeEntries(lut.data).length === (lut.kind === '1d' ? lut.size : lut.size ** 3) * 3;
+  } catch {
+    return false;
+  }
+}
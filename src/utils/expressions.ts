@@ -0,0 +1,330 @@
+// A small arithmetic language for driving uniforms each frame, e.g.
+//   0.5 + 0.5 * sin(t * 2)      noise(t)      obj("logo").x      value + lfo("wobble")
+// Sources are parsed into a tree and walked; nothing is ever passed to eval.
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// An object as expressions see it: the same normalized, bottom-left based values
+// as its shader uniforms, plus the colour channels
+export interface ExpressionObject {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+export const EXPRESSION_OBJECT_FIELDS: (keyof ExpressionObject)[] = ['x', 'y', 'width', 'height', 'rotation', 'r', 'g', 'b'];
+
+export interface ExpressionContext {
+  t: number;
+  value: number; // The control's own value before the expression
+  getObject: (name: string) => ExpressionObject | undefined;
+  getLfo: (name: string) => number | undefined;
+}
+
+type Expression =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; op: string; operand: Expression }
+  | { kind: 'binary'; op: string; left: Expression; right: Expression }
+  | { kind: 'conditional'; test: Expression; then: Expression; otherwise: Expression }
+  | { kind: 'call'; name: string; args: Expression[] }
+  | { kind: 'lfo'; name: string }
+  | { kind: 'object'; name: string; field: keyof ExpressionObject };
+
+export type CompiledExpression = Expression;
+
+// Maps rather than objects, so names like toString or __proto__ aren't found on the prototype
+const CONSTANTS = new Map<string, number>([
+  ['pi', Math.PI],
+  ['tau', Math.PI * 2],
+  ['e', Math.E],
+]);
+
+const VARIABLES = ['t', 'value'];
+
+// Deterministic, so exports and previews agree
+function hash(x: number): number {
+  const s = Math.sin(x * 127.1 + 311.7) * 43758.5453;
+  return s - Math.floor(s);
+}
+
+function valueNoise(x: number): number {
+  const i = Math.floor(x);
+  const f = x - i;
+  const u = f * f * (3 - 2 * f);
+  return hash(i) + (hash(i + 1) - hash(i)) * u;
+}
+
+const clamp = (x: number, min: number, max: number) => Math.min(max, Math.max(min, x));
+
+// Name to [minimum arguments, maximum arguments, implementation]
+const FUNCTIONS = new Map<string, [number, number, (...args: number[]) => number]>([
+  ['sin', [1, 1, Math.sin]],
+  ['cos', [1, 1, Math.cos]],
+  ['tan', [1, 1, Math.tan]],
+  ['asin', [1, 1, Math.asin]],
+  ['acos', [1, 1, Math.acos]],
+  ['atan', [1, 2, (y, x) => (x === undefined ? Math.atan(y) : Math.atan2(y, x))]],
+  ['abs', [1, 1, Math.abs]],
+  ['sign', [1, 1, Math.sign]],
+  ['floor', [1, 1, Math.floor]],
+  ['ceil', [1, 1, Math.ceil]],
+  ['round', [1, 1, Math.round]],
+  ['fract', [1, 1, x => x - Math.floor(x)]],
+  ['sqrt', [1, 1, Math.sqrt]],
+  ['exp', [1, 1, Math.exp]],
+  ['log', [1, 1, Math.log]],
+  ['pow', [2, 2, Math.pow]],
+  ['mod', [2, 2, (x, y) => x - y * Math.floor(x / y)]],
+  ['min', [2, Infinity, Math.min]],
+  ['max', [2, Infinity, Math.max]],
+  ['clamp', [3, 3, clamp]],
+  ['mix', [3, 3, (a, b, k) => a + (b - a) * k]],
+  ['step', [2, 2, (edge, x) => (x < edge ? 0 : 1)]],
+  ['smoothstep', [3, 3, (a, b, x) => {
+    const k = clamp((x - a) / (b - a), 0, 1);
+    return k * k * (3 - 2 * k);
+  }]],
+  ['noise', [1, 1, valueNoise]],
+  ['random', [1, 1, hash]],
+]);
+
+export const EXPRESSION_FUNCTIONS = [...FUNCTIONS.keys(), 'lfo', 'obj'];
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'name'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'end'; pos: number };
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '?', ':', '(', ')', ',', '.'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+    const number = rest.match(/^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i);
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+    const name = rest.match(/^[A-Za-z_]\w*/);
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], pos: i });
+      i += name[0].length;
+      continue;
+    }
+    const string = rest.match(/^"([^"]*)"|^'([^']*)'/);
+    if (string) {
+      tokens.push({ type: 'string', value: string[1] ?? string[2], pos: i });
+      i += string[0].length;
+      continue;
+    }
+    const op = OPERATORS.find(candidate => rest.startsWith(candidate));
+    if (!op) throw new ExpressionError(`Unexpected "${rest[0]}" at column ${i + 1}`);
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+  tokens.push({ type: 'end', pos: source.length });
+  return tokens;
+}
+
+const BINARY_LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '>', '<=', '>='], ['+', '-'], ['*', '/', '%']];
+
+// Recursive descent, loosest binding first: ?:, ||, &&, equality, comparison,
+// + -, * / %, unary, ^ (right-associative), then calls and member access
+export function parseExpression(source: string): CompiledExpression {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOp = (value: string) => {
+    const token = peek();
+    return token.type === 'op' && token.value === value;
+  };
+  const describe = (token: Token) => (token.type === 'end' ? 'end of expression' : `"${token.value}" at column ${token.pos + 1}`);
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new ExpressionError(`Expected "${value}" but found ${describe(peek())}`);
+    index++;
+  };
+  const expectString = (fn: string): string => {
+    const token = peek();
+    if (token.type !== 'string') throw new ExpressionError(`${fn}() takes a quoted name, e.g. ${fn}("name")`);
+    index++;
+    return token.value;
+  };
+
+  const parseConditional = (): Expression => {
+    const test = parseBinary(0);
+    if (!isOp('?')) return test;
+    index++;
+    const then = parseConditional();
+    expect(':');
+    return { kind: 'conditional', test, then, otherwise: parseConditional() };
+  };
+
+  const parseBinary = (level: number): Expression => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    for (;;) {
+      const token = peek();
+      if (token.type !== 'op' || !BINARY_LEVELS[level].includes(token.value)) return left;
+      index++;
+      left = { kind: 'binary', op: token.value, left, right: parseBinary(level + 1) };
+    }
+  };
+
+  const parseUnary = (): Expression => {
+    const token = peek();
+    if (token.type === 'op' && ['-', '+', '!'].includes(token.value)) {
+      index++;
+      return { kind: 'unary', op: token.value, operand: parseUnary() };
+    }
+    const base = parsePrimary();
+    if (!isOp('^')) return base;
+    index++;
+    return { kind: 'binary', op: '^', left: base, right: parseUnary() };
+  };
+
+  const parseCall = (name: string): Expression => {
+    if (name === 'lfo' || name === 'obj') {
+      const target = expectString(name);
+      expect(')');
+      if (name === 'lfo') return { kind: 'lfo', name: target };
+
+      if (!isOp('.')) throw new ExpressionError(`obj("${target}") needs a field, e.g. obj("${target}").x`);
+      index++;
+      const field = peek();
+      if (field.type !== 'name' || !EXPRESSION_OBJECT_FIELDS.includes(field.value as keyof ExpressionObject)) {
+        throw new ExpressionError(`Objects have the fields ${EXPRESSION_OBJECT_FIELDS.join(', ')}`);
+      }
+      index++;
+      return { kind: 'object', name: target, field: field.value as keyof ExpressionObject };
+    }
+
+    const fn = FUNCTIONS.get(name);
+    if (!fn) throw new ExpressionError(`Unknown function ${name}()`);
+    const args: Expression[] = [];
+    if (!isOp(')')) {
+      args.push(parseConditional());
+      while (isOp(',')) {
+        index++;
+        args.push(parseConditional());
+      }
+    }
+    expect(')');
+
+    const [min, max] = fn;
+    if (args.length < min || args.length > max) {
+      const count = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} or ${max}`;
+      throw new ExpressionError(`${name}() takes ${count} argument${min === 1 && max === 1 ? '' : 's'}`);
+    }
+    return { kind: 'call', name, args };
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = peek();
+    index++;
+    if (token.type === 'number') return { kind: 'number', value: token.value };
+    if (token.type === 'op' && token.value === '(') {
+      const inner = parseConditional();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'name') {
+      if (isOp('(')) {
+        index++;
+        return parseCall(token.value);
+      }
+      const constant = CONSTANTS.get(token.value);
+      if (constant !== undefined) return { kind: 'number', value: constant };
+      if (VARIABLES.includes(token.value)) return { kind: 'variable', name: token.value };
+      throw new ExpressionError(`Unknown name "${token.value}"; use ${VARIABLES.join(', ')} or a function`);
+    }
+    if (token.type === 'string') throw new ExpressionError(`Quoted names only go in lfo() and obj()`);
+    throw new ExpressionError(token.type === 'end' ? 'Unexpected end of expression' : `Unexpected ${describe(token)}`);
+  };
+
+  if (peek().type === 'end') throw new ExpressionError('Empty expression');
+  const expression = parseConditional();
+  if (peek().type !== 'end') throw new ExpressionError(`Unexpected ${describe(peek())}`);
+  return expression;
+}
+
+// Comparisons and logic give 1 or 0. Missing objects and LFOs read as 0, like
+// object uniforms in shaders.
+export function evaluateExpression(expression: CompiledExpression, context: ExpressionContext): number {
+  const evaluate = (node: Expression): number => {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+      case 'variable':
+        return node.name === 't' ? context.t : context.value;
+      case 'unary': {
+        const operand = evaluate(node.operand);
+        if (node.op === '-') return -operand;
+        if (node.op === '!') return operand ? 0 : 1;
+        return operand;
+      }
+      case 'binary': {
+        // Short-circuit so only the taken side is evaluated
+        if (node.op === '&&') return evaluate(node.left) && evaluate(node.right) ? 1 : 0;
+        if (node.op === '||') return evaluate(node.left) || evaluate(node.right) ? 1 : 0;
+        const a = evaluate(node.left);
+        const b = evaluate(node.right);
+        switch (node.op) {
+          case '+': return a + b;
+          case '-': return a - b;
+          case '*': return a * b;
+          case '/': return a / b;
+          case '%': return a % b;
+          case '^': return Math.pow(a, b);
+          case '<': return a < b ? 1 : 0;
+          case '>': return a > b ? 1 : 0;
+          case '<=': return a <= b ? 1 : 0;
+          case '>=': return a >= b ? 1 : 0;
+          case '==': return a === b ? 1 : 0;
+          default: return a !== b ? 1 : 0;
+        }
+      }
+      case 'conditional':
+        return evaluate(node.test) ? evaluate(node.then) : evaluate(node.otherwise);
+      case 'call':
+        return FUNCTIONS.get(node.name)![2](...node.args.map(evaluate));
+      case 'lfo':
+        return context.getLfo(node.name) ?? 0;
+      case 'object':
+        return context.getObject(node.name)?.[node.field] ?? 0;
+    }
+  };
+  return evaluate(expression);
+}
+
+// Check a source without evaluating it; returns the error message, if any
+export function validateExpression(source: string): string | null {
+  try {
+    parseExpression(source);
+    return null;
+  } catch (e) {
+    if (e instanceof ExpressionError) return e.message;
+    throw e;
+  }
+}
@@ -0,0 +1,115 @@
+import { Muxer, ArrayBufferTarget } from 'webm-muxer';
+import { zipSync } from 'fflate';
+
+export type VideoExportFormat = 'webm' | 'png-zip';
+
+// Receives rendered frames in order and produces the final file
+export interface FrameSink {
+  addFrame: (canvas: HTMLCanvasElement, frameIndex: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  abort: () => void;
+}
+
+// WebCodecs config and matching Matroska codec id, in order of preference
+const WEBM_CODECS = [
+  { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+  { codec: 'vp8', muxerCodec: 'V_VP8' },
+];
+
+// Keep a bounded number of frames in flight so long exports don't exhaust memory
+const MAX_ENCODE_QUEUE = 8;
+
+export function isWebMExportSupported(): boolean {
+  return typeof window !== 'undefined' && 'VideoEncoder' in window && 'VideoFrame' in window;
+}
+
+export async function createWebMSink(width: number, height: number, fps: number): Promise<FrameSink> {
+  if (!isWebMExportSupported()) {
+    throw new Error('WebM export needs WebCodecs (Chrome or Edge 94+). Try the PNG sequence instead.');
+  }
+
+  let selected: (typeof WEBM_CODECS)[number] | null = null;
+  for (const candidate of WEBM_CODECS) {
+    const { supported } = await VideoEncoder.isConfigSupported({ codec: candidate.codec, width, height });
+    if (supported) {
+      selected = candidate;
+      break;
+    }
+  }
+  if (!selected) {
+    throw new Error(`No WebM video encoder is available for ${width}x${height}.`);
+  }
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: selected.muxerCodec, width, height, frameRate: fps },
+  });
+
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encodeError = e; },
+  });
+  encoder.configure({
+    codec: selected.codec,
+    width,
+    height,
+    framerate: fps,
+    bitrate: Math.round(width * height * fps * 0.2),
+  });
+
+  const frameDuration = 1_000_000 / fps; // microseconds
+
+  return {
+    addFrame: async (canvas, frameIndex) => {
+      if (encodeError) throw encodeError;
+
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      // Timestamps come from the frame index, never the wall clock
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(frameIndex * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(frame, { keyFrame: frameIndex % Math.max(1, Math.round(fps * 2)) === 0 });
+      frame.close();
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (encodeError) throw encodeError;
+      encoder.close();
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: 'video/webm' });
+    },
+    abort: () => {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png'): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode canvas'))), type);
+  });
+}
+
+export function createPngSequenceSink(): FrameSink {
+  const files: Record<string, [Uint8Array, { level: 0 }]> = {};
+
+  return {
+    addFrame: async (canvas, frameIndex) => {
+      const blob = await canvasToBlob(canvas);
+      const name = `frame_${String(frameIndex).padStart(5, '0')}.png`;
+      // PNGs are already compressed, so store them as-is
+      files[name] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+    },
+    finish: async () => {
+      return new Blob([zipSync(files)], { type: 'application/zip' });
+    },
+    abort: () => {
+      Object.keys(files).forEach(name => delete files[name]);
+    },
+  };
+}
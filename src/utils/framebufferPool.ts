@@ -0,0 +1,55 @@
+// Reuses intermediate framebuffers across passes and frames instead of
+// allocating one per node every frame
+export interface FramebufferPool {
+  acquire: (width: number, height: number) => any;
+  release: (framebuffer: any) => void;
+  // Free idle framebuffers of any other size, e.g. after a high-resolution capture
+  trim: (width: number, height: number) => void;
+  destroy: () => void;
+}
+
+// Half float keeps values outside 0–1 and fine gradients between passes
+export type RenderTargetType = 'uint8' | 'half float';
+
+const sizeKey = (width: number, height: number) => `${width}x${height}`;
+
+export function createFramebufferPool(regl: any, type: RenderTargetType = 'uint8'): FramebufferPool {
+  const idle = new Map<string, any[]>();
+  const all = new Set<any>();
+
+  return {
+    acquire: (width, height) => {
+      const framebuffer = idle.get(sizeKey(width, height))?.pop();
+      if (framebuffer) return framebuffer;
+
+      const created = regl.framebuffer({
+        color: regl.texture({ width, height, type, min: 'linear', mag: 'linear', wrap: 'clamp' }),
+        depth: false
+      });
+      all.add(created);
+      return created;
+    },
+    release: (framebuffer) => {
+      const key = sizeKey(framebuffer.width, framebuffer.height);
+      const list = idle.get(key) ?? [];
+      list.push(framebuffer);
+      idle.set(key, list);
+    },
+    trim: (width, height) => {
+      const keep = sizeKey(width, height);
+      idle.forEach((list, key) => {
+        if (key === keep) return;
+        list.forEach(framebuffer => {
+          framebuffer.destroy();
+          all.delete(framebuffer);
+        });
+        idle.delete(key);
+      });
+    },
+    destroy: () => {
+      all.forEach(framebuffer => framebuffer.destroy());
+      all.clear();
+      idle.clear();
+    },
+  };
+}
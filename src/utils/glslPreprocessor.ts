@@ -0,0 +1,82 @@
+import { Shader, ShaderError, ShaderSnippet } from '../types';
+import { builtinSnippets } from '../shaders/snippets';
+
+const INCLUDE = /^\s*#include\s+"([^"]*)"\s*(?:\/\/.*)?$/;
+
+// Where an output line came from. Lines pulled in from a snippet point at the
+// shader's own #include line, plus the line inside the snippet.
+export interface SourceLocation {
+  line: number;
+  snippet?: { name: string; line: number };
+}
+
+export interface PreprocessedShader {
+  source: string;
+  lineMap: SourceLocation[];
+  errors: ShaderError[];
+}
+
+// Project snippets shadow built-in ones with the same name
+function getSnippetLibrary(userSnippets: ShaderSnippet[]): Map<string, ShaderSnippet> {
+  return new Map([...builtinSnippets, ...userSnippets].map(snippet => [snippet.name, snippet]));
+}
+
+// Resolve #include "name" lines. Each snippet is emitted once per shader, at its
+// first include; later includes of it (directly or from other snippets) are dropped.
+export function preprocessShader(source: string, userSnippets: ShaderSnippet[]): PreprocessedShader {
+  const library = getSnippetLibrary(userSnippets);
+  const included = new Set<string>();
+  const output: string[] = [];
+  const lineMap: SourceLocation[] = [];
+  const errors: ShaderError[] = [];
+
+  const expand = (code: string, from: (line: number) => SourceLocation, snippetName?: string) => {
+    code.split('\n').forEach((text, i) => {
+      const location = from(i + 1);
+      const match = text.match(INCLUDE);
+      if (!match) {
+        output.push(text);
+        lineMap.push(location);
+        return;
+      }
+
+      const name = match[1];
+      const snippet = library.get(name);
+      if (!snippet) {
+        const within = snippetName ? `In snippet "${snippetName}": ` : '';
+        errors.push({ line: location.line, column: null, message: `${within}Unknown #include "${name}"` });
+      } else if (!included.has(name)) {
+        included.add(name);
+        expand(snippet.code, line => ({ line: location.line, snippet: { name, line } }), name);
+        return;
+      }
+      // Keep a blank line so the shader's own line count is unchanged
+      output.push('');
+      lineMap.push(location);
+    });
+  };
+
+  expand(source, line => ({ line }));
+  return { source: output.join('\n'), lineMap, errors };
+}
+
+// The main and sub-pass sources of a shader with #includes expanded, for
+// finding which built-in uniforms and inputs it reads
+export function getExpandedSources(shader: Pick<Shader, 'fragmentShader' | 'passes'>, userSnippets: ShaderSnippet[]): string[] {
+  return [shader.fragmentShader, ...(shader.passes ?? []).map(pass => pass.fragmentShader)]
+    .map(source => preprocessShader(source, userSnippets).source);
+}
+
+// Point driver errors on the expanded source back at the shader the user wrote
+export function mapShaderErrors(errors: ShaderError[], lineMap: SourceLocation[]): ShaderError[] {
+  return errors.map(error => {
+    const location = error.line !== null ? lineMap[error.line - 1] : undefined;
+    if (!location) return error;
+    if (!location.snippet) return { ...error, line: location.line };
+    return {
+      line: location.line,
+      column: null,
+      message: `In snippet "${location.snippet.name}" line ${location.snippet.line}: ${error.message}`,
+    };
+  });
+}
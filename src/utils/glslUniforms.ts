@@ -0,0 +1,189 @@
+import { Shader, UniformDescriptor, UniformOption, UniformType, UniformValue } from '../types';
+import { formatUniformLabel, getVectorSize, hexToRgb, normalizeUniformValue } from './uniforms';
+
+// Uniforms provided by the renderer itself, never exposed as controls
+const BUILTIN_UNIFORMS = new Set([
+  'u_texture', 'u_resolution', 'u_sourceResolution', 'u_time', 'u_deltaTime', 'u_duration', 'u_frame', 'u_prevFrame', 'u_objectMask',
+  'u_mouse', 'u_mouseDown', 'u_clickPos', 'u_dragDelta', 'u_keyboard',
+  'u_lut', 'u_lutSize', 'u_lutTiles', 'u_lutDomainMin', 'u_lutDomainMax',
+  'u_audioLevel', 'u_audioLow', 'u_audioMid', 'u_audioHigh', 'u_audioBeat', 'u_audioSpectrum',
+]);
+const BUILTIN_UNIFORM_PATTERNS = [/^u_object\d+_/, /^u_obj_\w+_/, /^u_objects\b/, /^u_objectCount$/, /^u_texture\d+$/, /^u_pass_\w+$/];
+
+const SUPPORTED_TYPES = new Set(['float', 'int', 'bool', 'vec2', 'vec3', 'vec4']);
+
+const UNIFORM_DECLARATION = /^\s*uniform\s+(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+([^;]+);\s*(?:\/\/(.*))?$/;
+const LINE_COMMENT = /^\s*\/\/(.*)$/;
+
+interface Annotations {
+  range?: number[];
+  step?: number;
+  default?: string[];
+  label?: string;
+  color?: boolean;
+  options?: UniformOption[];
+}
+
+// Sub-passes are read as u_pass_<name>, so names must keep that a valid identifier.
+// GLSL reserves identifiers containing a double underscore.
+export function isValidPassName(name: string): boolean {
+  return /^[A-Za-z0-9]\w*$/.test(name) && !name.includes('__');
+}
+
+export function isBuiltinUniform(name: string): boolean {
+  return BUILTIN_UNIFORMS.has(name) || BUILTIN_UNIFORM_PATTERNS.some(pattern => pattern.test(name));
+}
+
+// Parse "@range 0 10 0.1 @default 0.5 @label Amount" style comment annotations
+function parseAnnotations(comments: string[]): Annotations {
+  const annotations: Annotations = {};
+  const text = comments.join(' ');
+
+  text.split(/(?=@\w+)/).forEach(chunk => {
+    const match = chunk.trim().match(/^@(\w+)\s*(.*)$/);
+    if (!match) return;
+
+    const [, key, rest] = match;
+    const args = rest.trim().split(/[\s,]+/).filter(Boolean);
+
+    switch (key) {
+      case 'range':
+        annotations.range = args.map(parseFloat).filter(n => !Number.isNaN(n));
+        break;
+      case 'step':
+        annotations.step = parseFloat(args[0]);
+        break;
+      case 'default':
+        annotations.default = args;
+        break;
+      case 'label':
+        annotations.label = rest.trim().replace(/^"(.*)"$/, '$1');
+        break;
+      case 'color':
+        annotations.color = true;
+        break;
+      case 'enum':
+        // @enum Off=0 Soft=1 Hard=2, or just @enum Off Soft Hard
+        annotations.options = args.map((arg, index) => {
+          const [label, value] = arg.split('=');
+          return { label, value: value === undefined ? index : parseFloat(value) };
+        });
+        break;
+    }
+  });
+
+  return annotations;
+}
+
+function parseDefault(type: UniformType, args: string[] | undefined): UniformValue | undefined {
+  if (!args || args.length === 0) return undefined;
+
+  if (type === 'bool') {
+    return args[0] === 'true' || args[0] === '1';
+  }
+  if (type === 'color' && args[0].startsWith('#')) {
+    return hexToRgb(args[0]);
+  }
+
+  const numbers = args.map(parseFloat).filter(n => !Number.isNaN(n));
+  if (numbers.length === 0) return undefined;
+
+  const size = getVectorSize(type);
+  if (size === 1) return numbers[0];
+  return Array.from({ length: size }, (_, i) => numbers[i] ?? numbers[numbers.length - 1]);
+}
+
+function createDescriptor(glslType: string, name: string, annotations: Annotations): UniformDescriptor {
+  let type: UniformType = glslType as UniformType;
+  if (annotations.color && glslType === 'vec3') {
+    type = 'color';
+  } else if (annotations.options && (glslType === 'int' || glslType === 'float')) {
+    type = 'enum';
+  }
+
+  const descriptor: UniformDescriptor = {
+    type,
+    label: annotations.label || formatUniformLabel(name),
+    default: 0,
+  };
+
+  if (type === 'enum') {
+    descriptor.options = annotations.options;
+  } else if (type !== 'bool' && type !== 'color') {
+    const [min, max, step] = annotations.range ?? [];
+    descriptor.min = min ?? 0;
+    descriptor.max = max ?? (type === 'int' ? 10 : 1);
+    descriptor.step = annotations.step ?? step ?? (type === 'int' ? 1 : 0.01);
+  }
+
+  const parsedDefault = parseDefault(type, annotations.default);
+  if (parsedDefault !== undefined) {
+    descriptor.default = parsedDefault;
+  } else if (type === 'color') {
+    descriptor.default = [1, 1, 1];
+  } else if (type === 'enum') {
+    descriptor.default = descriptor.options?.[0]?.value ?? 0;
+  } else {
+    // Match GL's implicit zero, kept inside the declared range
+    const zero = Math.min(Math.max(0, descriptor.min ?? 0), descriptor.max ?? 0);
+    descriptor.default = type === 'bool' ? false : normalizeUniformValue({ ...descriptor, default: zero }, undefined);
+  }
+
+  return descriptor;
+}
+
+// Build a uniform schema from the uniform declarations in a fragment shader
+export function parseUniformSchema(source: string): Record<string, UniformDescriptor> {
+  const schema: Record<string, UniformDescriptor> = {};
+  let pendingComments: string[] = [];
+
+  source.split('\n').forEach(line => {
+    const commentMatch = line.match(LINE_COMMENT);
+    if (commentMatch) {
+      pendingComments.push(commentMatch[1]);
+      return;
+    }
+
+    const match = line.match(UNIFORM_DECLARATION);
+    if (match) {
+      const [, glslType, names, trailingComment] = match;
+      const annotations = parseAnnotations([...pendingComments, trailingComment ?? '']);
+
+      if (SUPPORTED_TYPES.has(glslType)) {
+        names.split(',').map(name => name.trim()).forEach(name => {
+          // Arrays and built-ins are not user-controllable
+          if (!/^\w+$/.test(name) || isBuiltinUniform(name)) return;
+          schema[name] = createDescriptor(glslType, name, annotations);
+        });
+      }
+    }
+
+    pendingComments = [];
+  });
+
+  return schema;
+}
+
+// Re-derive a shader's uniform schema from new source, keeping values the user already set.
+// Sub-passes share the shader's uniforms, so ones only they declare count too; where
+// both declare one, the main source's annotations win.
+export function syncShaderUniforms(
+  shader: Pick<Shader, 'uniforms' | 'uniformSchema' | 'passes'>,
+  source: string
+): Pick<Shader, 'uniforms' | 'uniformSchema'> {
+  const uniformSchema = Object.assign(
+    {},
+    ...(shader.passes ?? []).map(pass => parseUniformSchema(pass.fragmentShader)),
+    parseUniformSchema(source)
+  ) as Record<string, UniformDescriptor>;
+
+  const uniforms = Object.fromEntries(
+    Object.entries(uniformSchema).map(([name, descriptor]) => {
+      const previous = shader.uniformSchema[name];
+      const keepValue = previous && previous.type === descriptor.type && name in shader.uniforms;
+      return [name, normalizeUniformValue(descriptor, keepValue ? shader.uniforms[name] : undefined)];
+    })
+  );
+
+  return { uniforms, uniformSchema };
+}
@@ -0,0 +1,51 @@
+import { InputSource, SourceMediaType } from '../types';
+
+const SAMPLE_VIDEO_URL = 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4';
+
+export const DEFAULT_SOURCE: InputSource = { kind: 'url', url: SAMPLE_VIDEO_URL, media: 'video' };
+
+// Used when a URL or file name doesn't say what it is
+const IMAGE_EXTENSION = /\.(png|jpe?g|gif|webp|avif|bmp|svg)$/i;
+
+export function guessMediaType(nameOrUrl: string): SourceMediaType {
+  const path = nameOrUrl.split(/[?#]/)[0];
+  return IMAGE_EXTENSION.test(path) ? 'image' : 'video';
+}
+
+export function createUrlSource(url: string): InputSource {
+  return { kind: 'url', url, media: guessMediaType(url) };
+}
+
+// Returns null for files that are neither video nor image
+export function createFileSource(file: File): InputSource | null {
+  let media: SourceMediaType | null = null;
+  if (file.type.startsWith('video/')) media = 'video';
+  else if (file.type.startsWith('image/')) media = 'image';
+  else if (!file.type) media = guessMediaType(file.name);
+
+  if (!media) return null;
+  return { kind: 'file', name: file.name, url: URL.createObjectURL(file), media };
+}
+
+export function getSourceLabel(source: InputSource): string {
+  switch (source.kind) {
+    case 'url':
+      return source.url === SAMPLE_VIDEO_URL ? 'Sample video' : source.url.split(/[?#]/)[0].split('/').pop() || source.url;
+    case 'file':
+      return source.name;
+    case 'webcam':
+      return 'Webcam';
+    case 'screen':
+      return 'Screen capture';
+  }
+}
+
+// Object URLs don't survive a reload, so projects only remember the file name
+export function toProjectSource(source: InputSource): InputSource {
+  return source.kind === 'file' ? { ...source, url: '' } : source;
+}
+
+// Sources that can't be restored without the user picking them again
+export function needsReselect(source: InputSource): boolean {
+  return (source.kind === 'file' && !source.url) || source.kind === 'screen';
+}
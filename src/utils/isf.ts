@@ -0,0 +1,411 @@
+import { FeedbackMode, Shader, UniformDescriptor, UniformValue } from '../types';
+import { isBuiltinUniform } from './glslUniforms';
+import { isGlsl300 } from './shaderCompiler';
+
+// Reads and writes ISF (Interactive Shader Format) fragment shaders: GLSL with a
+// JSON header describing INPUTS, PASSES and PERSISTENT buffers.
+
+export const ISF_FILE_EXTENSION = '.fs';
+
+export class IsfParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IsfParseError';
+  }
+}
+
+// Where an imported pass's u_textureN comes from, in the order of its inputs
+export type IsfPassInput =
+  | { kind: 'effect' } // Whatever feeds the effect: the previous pass in the stack
+  | { kind: 'source' }
+  | { kind: 'pass'; index: number };
+
+export interface IsfPass {
+  name: string;
+  fragmentShader: string;
+  feedback?: FeedbackMode;
+  inputs: IsfPassInput[];
+}
+
+export interface IsfImport {
+  passes: IsfPass[];
+  // True when a pass reads buffers the shader list can't provide, so only the graph wires it correctly
+  needsGraph: boolean;
+  warnings: string[];
+}
+
+// Only NAME and TYPE are checked on import; the rest is read as written
+interface IsfInput {
+  NAME: string;
+  TYPE: string;
+  LABEL?: unknown;
+  DEFAULT?: unknown;
+  MIN?: unknown;
+  MAX?: unknown;
+  VALUES?: unknown;
+  LABELS?: unknown;
+}
+
+interface IsfPassDefinition {
+  TARGET?: unknown;
+  PERSISTENT?: unknown;
+  WIDTH?: unknown;
+  HEIGHT?: unknown;
+}
+
+const HEADER = /^\s*\/\*\s*(\{[\s\S]*?\})\s*\*\//;
+
+const isfHelpers = `#define isf_FragNormCoord v_texCoord
+#define RENDERSIZE u_resolution
+#define TIME u_time
+#define TIMEDELTA u_deltaTime
+#define FRAMEINDEX int(u_frame)
+#define IMG_SIZE(image) u_resolution
+#define IMG_NORM_PIXEL(image, coord) texture2D(image, coord)
+#define IMG_THIS_NORM_PIXEL(image) texture2D(image, v_texCoord)
+#define IMG_PIXEL(image, coord) texture2D(image, (coord) / u_resolution)
+#define IMG_THIS_PIXEL(image) texture2D(image, v_texCoord)`;
+
+const mentions = (source: string, name: string) => new RegExp(`\\b${name}\\b`).test(source);
+
+// Annotation text can't contain @, and enum labels are single words
+const cleanLabel = (label: string) => label.replace(/@/g, '').trim();
+const cleanEnumLabel = (label: string) => label.replace(/[\s=@]+/g, '_');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isIsfInput = (value: unknown): value is IsfInput =>
+  isObject(value) && typeof value.NAME === 'string' && typeof value.TYPE === 'string';
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : [value]);
+const numberList = (value: unknown): number[] => list(value).filter((n): n is number => typeof n === 'number');
+
+// An annotated uniform declaration for each ISF input, so the usual parser builds the controls
+function declareInput(input: IsfInput, warnings: string[]): string[] {
+  const labelText = typeof input.LABEL === 'string' ? input.LABEL : '';
+  const label = labelText ? ` @label "${cleanLabel(labelText)}"` : '';
+  const name = input.NAME;
+
+  switch (input.TYPE) {
+    case 'float': {
+      const range = typeof input.MIN === 'number' && typeof input.MAX === 'number' ? ` @range ${input.MIN} ${input.MAX}` : '';
+      const fallback = typeof input.DEFAULT === 'number' ? ` @default ${input.DEFAULT}` : '';
+      return [`uniform float ${name}; //${range}${fallback}${label}`];
+    }
+    case 'bool':
+    case 'event':
+      return [`uniform bool ${name}; // @default ${input.DEFAULT ? 'true' : 'false'}${label}`];
+    case 'long': {
+      const values = numberList(input.VALUES);
+      const labels = Array.isArray(input.LABELS) ? input.LABELS : [];
+      const fallback = typeof input.DEFAULT === 'number' ? ` @default ${input.DEFAULT}` : '';
+      if (values.length > 0) {
+        const options = values.map((value, i) => `${cleanEnumLabel(String(labels[i] ?? value))}=${value}`);
+        return [`uniform int ${name}; // @enum ${options.join(' ')}${fallback}${label}`];
+      }
+      const range = typeof input.MIN === 'number' && typeof input.MAX === 'number' ? ` @range ${input.MIN} ${input.MAX}` : '';
+      return [`uniform int ${name}; //${range}${fallback}${label}`];
+    }
+    case 'color': {
+      // Colors are edited as RGB; ISF hands shaders a vec4
+      const [r = 1, g = 1, b = 1, a = 1] = numberList(input.DEFAULT);
+      return [
+        `uniform vec3 ${name}_rgb; // @color @default ${r} ${g} ${b} @label "${cleanLabel(labelText || name)}"`,
+        `#define ${name} vec4(${name}_rgb, ${a.toFixed(3)})`,
+      ];
+    }
+    case 'point2D': {
+      const min = numberList(input.MIN);
+      const max = numberList(input.MAX);
+      const range = min.length > 0 && max.length > 0 ? ` @range ${Math.min(...min)} ${Math.max(...max)}` : '';
+      const fallback = numberList(input.DEFAULT).length > 0 ? ` @default ${numberList(input.DEFAULT).join(' ')}` : '';
+      return [`uniform vec2 ${name}; //${range}${fallback}${label}`];
+    }
+    default:
+      warnings.push(`Input "${name}" has type ${input.TYPE}, which isn't supported`);
+      return [];
+  }
+}
+
+function parseHeader(text: string): { header: Record<string, unknown>; body: string } {
+  const match = text.match(HEADER);
+  if (!match) {
+    throw new IsfParseError('The file has no ISF header (a /*{ … }*/ comment at the top).');
+  }
+
+  let header: unknown;
+  try {
+    header = JSON.parse(match[1]);
+  } catch (e) {
+    throw new IsfParseError(`The ISF header isn't valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!isObject(header)) {
+    throw new IsfParseError('The ISF header must be a JSON object.');
+  }
+  return { header, body: text.slice(match[0].length).trim() };
+}
+
+// Turn an ISF file into one pass per PASSES entry. Pass N reads pass N-1 on
+// u_texture0 and the effect input on u_texture1, which is also how the shader
+// list chains passes; other buffers take further inputs that need the graph.
+export function importIsf(text: string, name: string): IsfImport {
+  const { header, body } = parseHeader(text);
+  const warnings: string[] = [];
+
+  const inputs = (Array.isArray(header.INPUTS) ? header.INPUTS : []).filter(isIsfInput);
+  const imageInputs = inputs.filter(input => input.TYPE === 'image');
+  const effectInput = imageInputs[0]?.NAME ?? 'inputImage';
+
+  const passDefinitions: IsfPassDefinition[] = Array.isArray(header.PASSES) && header.PASSES.length > 0
+    ? header.PASSES.map(pass => (isObject(pass) ? pass : {}))
+    : [{}];
+  // ISF 1 listed persistent buffers separately
+  const legacyBuffers = header.PERSISTENT_BUFFERS;
+  const legacyPersistent = new Set<string>(
+    Array.isArray(legacyBuffers)
+      ? legacyBuffers.filter((buffer): buffer is string => typeof buffer === 'string')
+      : isObject(legacyBuffers) ? Object.keys(legacyBuffers) : []
+  );
+  const targets = passDefinitions.map(pass => (typeof pass.TARGET === 'string' ? pass.TARGET : null));
+  const isPersistent = (index: number) => Boolean(passDefinitions[index].PERSISTENT) || legacyPersistent.has(targets[index] ?? '');
+
+  if (passDefinitions.some(pass => pass.WIDTH !== undefined || pass.HEIGHT !== undefined)) {
+    warnings.push('Passes render at the full output size; WIDTH and HEIGHT are ignored');
+  }
+  if (Array.isArray(header.IMPORTED) ? header.IMPORTED.length > 0 : header.IMPORTED) {
+    warnings.push('Imported images (IMPORTED) aren\'t supported');
+  }
+
+  const declarations = inputs.filter(input => input.TYPE !== 'image').flatMap(input => declareInput(input, warnings));
+  let needsGraph = false;
+
+  const passes = passDefinitions.map((_, index): IsfPass => {
+    const passInputs: IsfPassInput[] = [index === 0 ? { kind: 'effect' } : { kind: 'pass', index: index - 1 }];
+    const samplerNames: Record<string, string> = {};
+    let feedback: FeedbackMode | undefined;
+
+    const addInput = (input: IsfPassInput) => {
+      passInputs.push(input);
+      return `u_texture${passInputs.length - 1}`;
+    };
+
+    if (index > 0) {
+      if (targets[index - 1]) samplerNames[targets[index - 1]!] = 'u_texture0';
+      samplerNames[effectInput] = addInput({ kind: 'effect' });
+    } else {
+      samplerNames[effectInput] = 'u_texture0';
+    }
+
+    imageInputs.slice(1).forEach(input => {
+      if (!mentions(body, input.NAME)) return;
+      samplerNames[input.NAME] = addInput({ kind: 'source' });
+      warnings.push(`Image input "${input.NAME}" reads the original source`);
+    });
+
+    targets.forEach((target, targetIndex) => {
+      if (!target || target in samplerNames || !mentions(body, target)) return;
+      if (targetIndex === index) {
+        if (!isPersistent(index)) return;
+        // A pass reading its own persistent buffer sees its last frame
+        samplerNames[target] = 'u_prevFrame';
+        feedback = 'self';
+      } else if (targetIndex < index) {
+        samplerNames[target] = addInput({ kind: 'pass', index: targetIndex });
+        needsGraph = true;
+      } else {
+        samplerNames[target] = 'u_prevFrame';
+        warnings.push(`Pass ${index + 1} reads "${target}" from the previous frame; it sees its own last output instead`);
+        feedback = 'self';
+      }
+    });
+
+    const samplers = new Set(['u_texture0', ...Object.values(samplerNames)]);
+    const fragmentShader = `// Imported from ISF
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+${[...samplers].map(sampler => `uniform sampler2D ${sampler};`).join('\n')}
+uniform vec2 u_resolution;
+uniform float u_time;
+uniform float u_deltaTime;
+uniform float u_frame;
+varying vec2 v_texCoord;
+
+${declarations.join('\n')}
+
+${Object.entries(samplerNames).map(([image, sampler]) => `#define ${image} ${sampler}`).join('\n')}
+#define PASSINDEX ${index}
+${isfHelpers}
+
+${body}
+`;
+
+    return {
+      name: passDefinitions.length > 1 ? `${name} (pass ${index + 1})` : name,
+      fragmentShader,
+      feedback,
+      inputs: passInputs,
+    };
+  });
+
+  return { passes, needsGraph, warnings };
+}
+
+// Lines importIsf adds that would clash with what an ISF host defines
+const IMPORT_PRELUDE = new Set(['// Imported from ISF', ...isfHelpers.split('\n')]);
+const IMPORTED_PASS_INDEX = /^#define PASSINDEX (\d+)$/m;
+
+const UNIFORM_LINE = /^\s*uniform\s+(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+(\w+)\s*;.*$/;
+const STRIPPED_LINE = /^\s*(?:precision\s+\w+\s+float\s*;|varying\s+vec2\s+v_texCoord\s*;)\s*$/;
+
+// Uniforms ISF can't feed; they're kept as plain uniforms the host leaves at zero
+const UNMAPPED_BUILTINS = /^u_(?:objectMask$|mouse|clickPos$|dragDelta$|keyboard$|object|obj_|lut|audio|duration$)/;
+
+const isfInputName = (uniform: string, taken: Set<string>) => {
+  const stripped = uniform.replace(/^u_/, '');
+  return stripped && !taken.has(stripped) ? stripped : uniform;
+};
+
+function describeInput(
+  name: string,
+  descriptor: UniformDescriptor,
+  value: UniformValue,
+  glslType: string
+): { input: Record<string, unknown>; expression: string } {
+  const base = { NAME: name, LABEL: descriptor.label };
+  const range = descriptor.min !== undefined && descriptor.max !== undefined
+    ? { MIN: descriptor.min, MAX: descriptor.max }
+    : {};
+
+  switch (descriptor.type) {
+    case 'bool':
+      return { input: { ...base, TYPE: 'bool', DEFAULT: Boolean(value) }, expression: name };
+    case 'enum':
+      return {
+        input: {
+          ...base,
+          TYPE: 'long',
+          VALUES: descriptor.options?.map(option => option.value) ?? [],
+          LABELS: descriptor.options?.map(option => option.label) ?? [],
+          DEFAULT: value,
+        },
+        expression: glslType === 'float' ? `float(${name})` : name,
+      };
+    case 'int':
+      return { input: { ...base, TYPE: 'long', ...range, DEFAULT: value }, expression: name };
+    case 'vec2':
+      return {
+        input: {
+          ...base,
+          TYPE: 'point2D',
+          DEFAULT: value,
+          ...(descriptor.min !== undefined && { MIN: [descriptor.min, descriptor.min] }),
+          ...(descriptor.max !== undefined && { MAX: [descriptor.max, descriptor.max] }),
+        },
+        expression: name,
+      };
+    case 'color':
+    case 'vec3': {
+      const [r, g, b] = value as number[];
+      return { input: { ...base, TYPE: 'color', DEFAULT: [r, g, b, 1] }, expression: `${name}.rgb` };
+    }
+    case 'vec4':
+      return { input: { ...base, TYPE: 'color', DEFAULT: value }, expression: name };
+    default:
+      return { input: { ...base, TYPE: 'float', ...range, DEFAULT: value }, expression: name };
+  }
+}
+
+// Write a shader as an ISF file, with its current uniform values as the defaults
+export function exportIsf(shader: Shader): { text: string; warnings: string[] } {
+  const warnings: string[] = [];
+  const source = shader.fragmentShader;
+  if (shader.passes?.length) {
+    warnings.push('Only the final pass of a multi-pass effect is exported; its sub-pass results read as the input image');
+  }
+  if (isGlsl300(source)) {
+    warnings.push('ISF hosts compile GLSL ES 1.00; this GLSL ES 3.00 shader needs porting before it will run');
+  }
+  const taken = new Set<string>(['inputImage', 'lastFrame']);
+
+  // A pass imported from a multi-pass file keeps its fixed pass index
+  const passIndex = source.match(IMPORTED_PASS_INDEX)?.[1];
+
+  const glslTypes: Record<string, string> = {};
+  const body = source.split('\n').filter(line => {
+    if (STRIPPED_LINE.test(line) || IMPORT_PRELUDE.has(line.trim()) || IMPORTED_PASS_INDEX.test(line.trim())) return false;
+    const match = line.match(UNIFORM_LINE);
+    if (!match) return true;
+    const [, type, name] = match;
+    glslTypes[name] = type;
+    // Inputs and mapped built-ins are declared by the ISF host
+    if (name in shader.uniformSchema) return false;
+    if (isBuiltinUniform(name) && !UNMAPPED_BUILTINS.test(name)) return false;
+    return true;
+  });
+
+  const inputs: Record<string, unknown>[] = [{ NAME: 'inputImage', TYPE: 'image' }];
+  const defines = [
+    '#define u_texture inputImage',
+    '#define u_texture0 inputImage',
+    '#define v_texCoord isf_FragNormCoord',
+    '#define u_resolution RENDERSIZE',
+    '#define u_sourceResolution IMG_SIZE(inputImage)',
+    '#define u_time TIME',
+    '#define u_deltaTime TIMEDELTA',
+    '#define u_frame float(FRAMEINDEX)',
+  ];
+
+  // Extra inputs become extra image inputs
+  for (let i = 1; mentions(source, `u_texture${i}`); i++) {
+    inputs.push({ NAME: `inputImage${i}`, TYPE: 'image' });
+    defines.push(`#define u_texture${i} inputImage${i}`);
+  }
+
+  (shader.passes ?? []).forEach(pass => {
+    if (mentions(source, `u_pass_${pass.name}`)) defines.push(`#define u_pass_${pass.name} inputImage`);
+  });
+
+  Object.entries(shader.uniformSchema).forEach(([uniform, descriptor]) => {
+    const name = isfInputName(uniform, taken);
+    taken.add(name);
+    const { input, expression } = describeInput(name, descriptor, shader.uniforms[uniform] ?? descriptor.default, glslTypes[uniform]);
+    inputs.push(input);
+    if (expression !== uniform) defines.push(`#define ${uniform} ${expression}`);
+  });
+
+  const unmapped = Object.keys(glslTypes).filter(name => UNMAPPED_BUILTINS.test(name));
+  if (unmapped.length > 0) {
+    warnings.push(`ISF hosts don't provide ${unmapped.join(', ')}; they will read as zero`);
+  }
+
+  // Feedback becomes a persistent buffer that the effect renders into and a
+  // second pass copies to the output
+  const usesFeedback = mentions(source, 'u_prevFrame');
+  let main = body.join('\n')
+    .replace(/#ifdef GL_FRAGMENT_PRECISION_HIGH\s*#else\s*#endif\s*/, '')
+    .trim();
+  if (passIndex !== undefined) {
+    main = main.replace(/\bPASSINDEX\b/g, passIndex);
+  }
+  if (usesFeedback) {
+    defines.push('#define u_prevFrame lastFrame');
+    main = `#define main effectMain\n${main}\n#undef main\n\nvoid main() {\n  if (PASSINDEX == 0) {\n    effectMain();\n  } else {\n    gl_FragColor = IMG_THIS_PIXEL(lastFrame);\n  }\n}`;
+  }
+
+  const header = {
+    DESCRIPTION: `${shader.name}, exported from Shader Studio`,
+    ISFVSN: '2',
+    CATEGORIES: ['Shader Studio'],
+    INPUTS: inputs,
+    ...(usesFeedback && { PASSES: [{ TARGET: 'lastFrame', PERSISTENT: true }, {}] }),
+  };
+
+  return {
+    text: `/*${JSON.stringify(header, null, 2)}*/\n\n${defines.join('\n')}\n\n${main}\n`,
+    warnings,
+  };
+}
@@ -0,0 +1,148 @@
+import { AnimatableObjectProperty, CanvasObject, Lfo, LfoShape, Shader, UniformType, UniformValue } from '../types';
+import { hexToRgb, normalizeUniformValue } from './uniforms';
+import { CompiledExpression, ExpressionError, ExpressionObject, evaluateExpression, parseExpression } from './expressions';
+
+export const LFO_SHAPES: { value: LfoShape; label: string }[] = [
+  { value: 'sine', label: 'Sine' },
+  { value: 'square', label: 'Square' },
+  { value: 'saw', label: 'Saw' },
+  { value: 'random', label: 'Random hold' },
+];
+
+export const LFO_UNIFORM_TYPES: UniformType[] = ['float', 'int', 'vec2', 'vec3', 'vec4'];
+export const LFO_OBJECT_PROPERTIES: AnimatableObjectProperty[] = ['x', 'y', 'width', 'height', 'rotation'];
+export const EXPRESSION_UNIFORM_TYPES: UniformType[] = ['float', 'int'];
+
+export function createLfo(id: string, lfos: Lfo[]): Lfo {
+  const taken = new Set(lfos.map(lfo => lfo.name));
+  let n = 1;
+  while (taken.has(`lfo${n}`)) n++;
+  return { id, name: `lfo${n}`, shape: 'sine', rate: 1, depth: 0.1, targets: [] };
+}
+
+// Random-hold LFOs are seeded by id so they don't all step to the same values
+function seed(id: string): number {
+  let h = 0;
+  for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) % 1000;
+  return h;
+}
+
+// One cycle per 1 / rate seconds, from -1 to 1. Pure in time, so exports match the preview.
+export function evaluateLfo(lfo: Lfo, time: number): number {
+  const cycles = time * lfo.rate;
+  const phase = cycles - Math.floor(cycles);
+  switch (lfo.shape) {
+    case 'square':
+      return phase < 0.5 ? 1 : -1;
+    case 'saw':
+      return phase * 2 - 1;
+    case 'random': {
+      const s = Math.sin((Math.floor(cycles) + seed(lfo.id) * 0.37) * 12.9898) * 43758.5453;
+      return (s - Math.floor(s)) * 2 - 1;
+    }
+    default:
+      return Math.sin(phase * Math.PI * 2);
+  }
+}
+
+// Parsed expressions by source, or null when a source doesn't parse. Every edit
+// adds an entry, so the cache starts over once it grows.
+const compiledExpressions = new Map<string, CompiledExpression | null>();
+
+function getCompiledExpression(source: string): CompiledExpression | null {
+  if (!compiledExpressions.has(source)) {
+    if (compiledExpressions.size > 256) compiledExpressions.clear();
+    try {
+      compiledExpressions.set(source, parseExpression(source));
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      compiledExpressions.set(source, null);
+    }
+  }
+  return compiledExpressions.get(source)!;
+}
+
+const offsetValue = (value: UniformValue, offset: number): UniformValue => {
+  if (Array.isArray(value)) return value.map(component => component + offset);
+  return typeof value === 'number' ? value + offset : value;
+};
+
+// Apply LFOs, then uniform expressions, on top of the keyframed values. LFOs move
+// objects first so expressions read where objects actually are this frame.
+export function applyModulation(
+  frame: { shaders: Shader[]; objects: CanvasObject[] },
+  lfos: Lfo[],
+  time: number,
+  canvasWidth: number,
+  canvasHeight: number
+): { shaders: Shader[]; objects: CanvasObject[] } {
+  const hasExpressions = frame.shaders.some(shader => shader.expressions);
+  if (lfos.every(lfo => lfo.targets.length === 0) && !hasExpressions) return frame;
+
+  const offsets = new Map(lfos.map(lfo => [lfo.id, evaluateLfo(lfo, time) * lfo.depth]));
+  const lfoTargets = lfos.flatMap(lfo => lfo.targets.map(target => ({ target, offset: offsets.get(lfo.id)! })));
+
+  const objects = frame.objects.map(obj => {
+    const moved = { ...obj };
+    lfoTargets.forEach(({ target, offset }) => {
+      if (target.kind === 'object' && target.objectId === obj.id && LFO_OBJECT_PROPERTIES.includes(target.property)) {
+        (moved[target.property] as number) += offset;
+      }
+    });
+    return moved;
+  });
+
+  // The first object or LFO with a name owns it, as with object uniforms
+  const namedObjects = new Map<string, ExpressionObject>();
+  objects.forEach(obj => {
+    if (!obj.name || namedObjects.has(obj.name)) return;
+    const [r, g, b] = hexToRgb(obj.color);
+    namedObjects.set(obj.name, {
+      x: (obj.x + obj.width / 2) / canvasWidth,
+      y: 1.0 - (obj.y + obj.height / 2) / canvasHeight,
+      width: obj.width / canvasWidth,
+      height: obj.height / canvasHeight,
+      rotation: obj.rotation,
+      r,
+      g,
+      b,
+    });
+  });
+  const namedLfos = new Map<string, number>();
+  lfos.forEach(lfo => {
+    if (!namedLfos.has(lfo.name)) namedLfos.set(lfo.name, offsets.get(lfo.id)!);
+  });
+
+  const shaders = frame.shaders.map(shader => {
+    const uniforms = { ...shader.uniforms };
+
+    lfoTargets.forEach(({ target, offset }) => {
+      if (target.kind !== 'uniform' || target.shaderId !== shader.id) return;
+      const descriptor = shader.uniformSchema[target.uniform];
+      if (!descriptor || !LFO_UNIFORM_TYPES.includes(descriptor.type)) return;
+      const value = offsetValue(normalizeUniformValue(descriptor, uniforms[target.uniform]), offset);
+      uniforms[target.uniform] = descriptor.type === 'int' ? Math.round(value as number) : value;
+    });
+
+    Object.entries(shader.expressions ?? {}).forEach(([name, source]) => {
+      const descriptor = shader.uniformSchema[name];
+      const expression = getCompiledExpression(source);
+      if (!descriptor || !EXPRESSION_UNIFORM_TYPES.includes(descriptor.type) || !expression) return;
+
+      const result = evaluateExpression(expression, {
+        t: time,
+        value: normalizeUniformValue(descriptor, uniforms[name]) as number,
+        getObject: objectName => namedObjects.get(objectName),
+        getLfo: lfoName => namedLfos.get(lfoName),
+      });
+      // Division by zero and the like keep the control's own value
+      if (Number.isFinite(result)) {
+        uniforms[name] = descriptor.type === 'int' ? Math.round(result) : result;
+      }
+    });
+
+    return { ...shader, uniforms };
+  });
+
+  return { shaders, objects };
+}
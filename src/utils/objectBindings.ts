@@ -0,0 +1,93 @@
+import { CanvasObject } from '../types';
+import { hexToRgb } from './uniforms';
+
+// Length of the u_objects array a shader can loop over
+export const MAX_OBJECTS = 16;
+
+export const OBJECT_FIELDS = ['pos', 'size', 'color', 'rotation'] as const;
+export type ObjectField = typeof OBJECT_FIELDS[number];
+
+// Declare this struct to read the array form: uniform ObjectData u_objects[16];
+export const OBJECT_STRUCT_DECLARATION = 'struct ObjectData { vec2 pos; vec2 size; vec3 color; float rotation; };';
+
+const FIELD_PATTERN = OBJECT_FIELDS.join('|');
+const INDEXED_UNIFORM = new RegExp(`\\bu_object\\d+_(?:${FIELD_PATTERN})\\b`, 'g');
+const NAMED_UNIFORM = new RegExp(`\\bu_obj_\\w+_(?:${FIELD_PATTERN})\\b`, 'g');
+const ARRAY_UNIFORM = /\bu_objects\b/;
+
+export const namedUniform = (name: string, field: ObjectField) => `u_obj_${name}_${field}`;
+
+// Binding names become part of GLSL identifiers: letters, digits and single
+// underscores. Edge underscores are kept while typing and trimmed when done.
+export function sanitizeBindingName(name: string, trimEdges = true): string {
+  const cleaned = name.replace(/[^A-Za-z0-9_]/g, '_').replace(/_+/g, '_');
+  return trimEdges ? cleaned.replace(/^_|_$/g, '') : cleaned;
+}
+
+export function createBindingName(type: CanvasObject['type'], objects: Pick<CanvasObject, 'name'>[]): string {
+  const taken = new Set(objects.map(obj => obj.name));
+  let n = 1;
+  while (taken.has(`${type}${n}`)) n++;
+  return `${type}${n}`;
+}
+
+// Object uniforms a fragment shader mentions. Commands bind exactly these, so
+// adding, removing or renaming objects never requires a recompile.
+export function getReferencedObjectUniforms(fragmentShader: string): string[] {
+  const names = new Set([
+    ...(fragmentShader.match(INDEXED_UNIFORM) ?? []),
+    ...(fragmentShader.match(NAMED_UNIFORM) ?? []),
+  ]);
+  if (ARRAY_UNIFORM.test(fragmentShader)) {
+    names.add('u_objectCount');
+    for (let i = 0; i < MAX_OBJECTS; i++) {
+      OBJECT_FIELDS.forEach(field => names.add(`u_objects[${i}].${field}`));
+    }
+  }
+  return [...names];
+}
+
+const ZERO_VALUES: Record<ObjectField, number | number[]> = {
+  pos: [0, 0],
+  size: [0, 0],
+  color: [0, 0, 0],
+  rotation: 0,
+};
+
+// Unbound names (a deleted object, an empty array slot) read as zero
+export function getObjectUniformDefault(name: string): number | number[] {
+  if (name === 'u_objectCount') return 0;
+  const field = OBJECT_FIELDS.find(f => name.endsWith(`_${f}`) || name.endsWith(`.${f}`));
+  return field ? ZERO_VALUES[field] : 0;
+}
+
+// Every object uniform for a frame: by index, by binding name and as the array.
+// Positions and sizes are normalized with a bottom-left origin.
+export function getObjectUniformValues(
+  objects: CanvasObject[],
+  canvasWidth: number,
+  canvasHeight: number
+): Record<string, number | number[]> {
+  const values: Record<string, number | number[]> = {
+    u_objectCount: Math.min(objects.length, MAX_OBJECTS),
+  };
+
+  objects.forEach((obj, i) => {
+    const fields: Record<ObjectField, number | number[]> = {
+      pos: [(obj.x + obj.width / 2) / canvasWidth, 1.0 - (obj.y + obj.height / 2) / canvasHeight],
+      size: [obj.width / canvasWidth, obj.height / canvasHeight],
+      color: hexToRgb(obj.color),
+      rotation: obj.rotation,
+    };
+
+    OBJECT_FIELDS.forEach(field => {
+      values[`u_object${i}_${field}`] = fields[field];
+      if (i < MAX_OBJECTS) values[`u_objects[${i}].${field}`] = fields[field];
+      // The first object with a name owns it
+      const named = obj.name ? namedUniform(obj.name, field) : null;
+      if (named && !(named in values)) values[named] = fields[field];
+    });
+  });
+
+  return values;
+}
@@ -0,0 +1,49 @@
+import { CanvasObject, ObjectPlacement, Shader } from '../types';
+
+export const DEFAULT_OBJECT_PLACEMENT: ObjectPlacement = { layer: 'top' };
+
+// Objects sharing a key are rasterized into the same layer texture
+export function getPlacementKey(placement: ObjectPlacement): string {
+  return placement.layer === 'after' ? `after:${placement.shaderId ?? ''}` : placement.layer;
+}
+
+export function parsePlacementKey(key: string): ObjectPlacement {
+  if (key.startsWith('after:')) {
+    return { layer: 'after', shaderId: key.slice('after:'.length) };
+  }
+  return { layer: key === 'before' ? 'before' : 'top' };
+}
+
+export function getPlacementLabel(placement: ObjectPlacement, shaders: Shader[]): string {
+  if (placement.layer === 'before') return 'Before all passes';
+  if (placement.layer === 'top') return 'On top';
+  const shader = shaders.find(s => s.id === placement.shaderId);
+  return shader ? `After ${shader.name}` : 'After a deleted pass';
+}
+
+// Choices for a placement select: before the chain, after each pass, or on top
+export function getPlacementOptions(shaders: Shader[]): { key: string; label: string }[] {
+  const placements: ObjectPlacement[] = [
+    { layer: 'before' },
+    ...shaders.map(shader => ({ layer: 'after' as const, shaderId: shader.id })),
+    { layer: 'top' },
+  ];
+  return placements.map(placement => ({
+    key: getPlacementKey(placement),
+    label: getPlacementLabel(placement, shaders),
+  }));
+}
+
+// Group the visible objects by where they land, keeping their stacking order
+export function groupObjectLayers(
+  objects: CanvasObject[],
+  defaultPlacement: ObjectPlacement
+): Map<string, CanvasObject[]> {
+  const layers = new Map<string, CanvasObject[]>();
+  objects.forEach(obj => {
+    if (!obj.visible) return;
+    const key = getPlacementKey(obj.placement ?? defaultPlacement);
+    layers.set(key, [...(layers.get(key) ?? []), obj]);
+  });
+  return layers;
+}
@@ -0,0 +1,159 @@
+import { GraphNode, Pipeline, Shader } from '../types';
+import { DEFAULT_OBJECT_PLACEMENT } from './objectLayers';
+
+// Virtual node ids: the input frame and the final output
+export const SOURCE_NODE_ID = 'source';
+export const OUTPUT_NODE_ID = 'output';
+
+export const MAX_TEXTURE_INPUTS = 8;
+
+const TEXTURE_INPUT = /uniform\s+(?:(?:lowp|mediump|highp)\s+)?sampler2D\s+u_texture(\d+)\s*;/g;
+
+export function createEmptyPipeline(): Pipeline {
+  return { mode: 'stack', nodes: [], output: null, objectPlacement: DEFAULT_OBJECT_PLACEMENT };
+}
+
+// Number of inputs a pass takes: the highest u_textureN it declares, and always at least one
+export function getTextureInputCount(sources: string[]): number {
+  let count = 1;
+  for (const source of sources) {
+    for (const match of source.matchAll(TEXTURE_INPUT)) {
+      count = Math.max(count, Math.min(MAX_TEXTURE_INPUTS, parseInt(match[1]) + 1));
+    }
+  }
+  return count;
+}
+
+// Seed a graph from the shader list so switching modes keeps the current look
+export function createGraphFromStack(pipeline: Pipeline, shaders: Shader[]): Pipeline {
+  let previous = SOURCE_NODE_ID;
+  const nodes = shaders
+    .filter(shader => shader.enabled)
+    .map((shader, i) => {
+      const node: GraphNode = {
+        id: `node-${shader.id}`,
+        shaderId: shader.id,
+        inputs: [previous],
+        x: 220 + i * 200,
+        y: 60 + (i % 2) * 40,
+      };
+      previous = node.id;
+      return node;
+    });
+
+  return { ...pipeline, mode: 'graph', nodes, output: previous };
+}
+
+export interface PipelinePlan {
+  // Nodes in evaluation order; each one's inputs come earlier in the list
+  steps: GraphNode[];
+  output: string;
+  error: string | null;
+}
+
+// The shader list as a chain. Each pass reads the previous result on
+// u_texture0 and the untouched source frame on u_texture1.
+export function planStack(shaders: Shader[]): PipelinePlan {
+  let previous = SOURCE_NODE_ID;
+  const steps = shaders
+    .filter(shader => shader.enabled)
+    .map(shader => {
+      const node: GraphNode = { id: shader.id, shaderId: shader.id, inputs: [previous, SOURCE_NODE_ID], x: 0, y: 0 };
+      previous = node.id;
+      return node;
+    });
+
+  return { steps, output: previous, error: null };
+}
+
+// Topologically sort the nodes that feed the output. Unreachable nodes are
+// skipped; a cycle falls back to showing the source.
+export function planGraph(pipeline: Pipeline): PipelinePlan {
+  const nodesById = new Map(pipeline.nodes.map(node => [node.id, node]));
+  const steps: GraphNode[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (id: string | null): boolean => {
+    if (!id || id === SOURCE_NODE_ID) return true;
+    const node = nodesById.get(id);
+    if (!node) return true;
+
+    const current = state.get(id);
+    if (current === 'done') return true;
+    if (current === 'visiting') return false;
+
+    state.set(id, 'visiting');
+    if (!node.inputs.every(visit)) return false;
+    state.set(id, 'done');
+    steps.push(node);
+    return true;
+  };
+
+  const output = pipeline.output && nodesById.has(pipeline.output) ? pipeline.output : SOURCE_NODE_ID;
+  if (!visit(output)) {
+    return { steps: [], output: SOURCE_NODE_ID, error: 'The node graph has a cycle' };
+  }
+  return { steps, output, error: null };
+}
+
+// Would feeding `fromId` into `toId` make `toId` depend on itself?
+export function wouldCreateCycle(pipeline: Pipeline, fromId: string, toId: string): boolean {
+  const nodesById = new Map(pipeline.nodes.map(node => [node.id, node]));
+  const seen = new Set<string>();
+  const stack = [fromId];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === toId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    nodesById.get(id)?.inputs.forEach(input => input && stack.push(input));
+  }
+  return false;
+}
+
+export function connectNodes(pipeline: Pipeline, fromId: string, toId: string, inputIndex: number): Pipeline {
+  if (toId === OUTPUT_NODE_ID) {
+    return { ...pipeline, output: fromId };
+  }
+  if (wouldCreateCycle(pipeline, fromId, toId)) return pipeline;
+
+  return {
+    ...pipeline,
+    nodes: pipeline.nodes.map(node => {
+      if (node.id !== toId) return node;
+      const inputs = [...node.inputs];
+      while (inputs.length <= inputIndex) inputs.push(null);
+      inputs[inputIndex] = fromId;
+      return { ...node, inputs };
+    }),
+  };
+}
+
+export function disconnectInput(pipeline: Pipeline, nodeId: string, inputIndex: number): Pipeline {
+  if (nodeId === OUTPUT_NODE_ID) {
+    return { ...pipeline, output: null };
+  }
+  return {
+    ...pipeline,
+    nodes: pipeline.nodes.map(node =>
+      node.id === nodeId
+        ? { ...node, inputs: node.inputs.map((input, i) => (i === inputIndex ? null : input)) }
+        : node
+    ),
+  };
+}
+
+// Drop nodes and every connection that referenced them
+export function removeNodes(pipeline: Pipeline, shouldRemove: (node: GraphNode) => boolean): Pipeline {
+  const removed = new Set(pipeline.nodes.filter(shouldRemove).map(node => node.id));
+  if (removed.size === 0) return pipeline;
+
+  return {
+    ...pipeline,
+    nodes: pipeline.nodes
+      .filter(node => !removed.has(node.id))
+      .map(node => ({ ...node, inputs: node.inputs.map(input => (input && removed.has(input) ? null : input)) })),
+    output: pipeline.output && removed.has(pipeline.output) ? null : pipeline.output,
+  };
+}
@@ -0,0 +1,469 @@
+import {
+  AudioBand,
+  BlendMode,
+  CanvasObject,
+  ClockMode,
+  ColorLut,
+  InputSource,
+  Lfo,
+  Pipeline,
+  Shader,
+  ShaderSnippet,
+  Timeline,
+  UniformType,
+  UniformValue,
+} from '../types';
+import { isValidPassName } from './glslUniforms';
+import { getVectorSize } from './uniforms';
+import { EASING_TYPES, createEmptyTimeline } from './animation';
+import { DEFAULT_SOURCE, createUrlSource, toProjectSource } from './inputSources';
+import { createEmptyPipeline } from './pipelineGraph';
+import { DEFAULT_OBJECT_PLACEMENT } from './objectLayers';
+import { createBindingName } from './objectBindings';
+import { isValidLutData } from './cubeLut';
+import { LFO_SHAPES } from './modulation';
+
+export const PROJECT_VERSION = 10;
+export const PROJECT_FILE_EXTENSION = '.shaderstudio.json';
+
+export interface ProjectDocument {
+  version: number;
+  shaders: Shader[];
+  objects: CanvasObject[];
+  objectsVisible: boolean;
+  timeline: Timeline;
+  pipeline: Pipeline;
+  snippets: ShaderSnippet[];
+  luts: ColorLut[];
+  lfos: Lfo[];
+  clockMode: ClockMode;
+  source: InputSource;
+}
+
+export class ProjectLoadError extends Error {
+  constructor(message: string, public readonly details: string[] = []) {
+    super(message);
+    this.name = 'ProjectLoadError';
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  (values as readonly unknown[]).includes(value);
+const hasName = (value: unknown): value is { name: string } => isObject(value) && isString(value.name);
+const isUniformValue = (value: unknown): value is UniformValue =>
+  isNumber(value) || isBoolean(value) || (Array.isArray(value) && value.every(isNumber));
+
+const OBJECT_TYPES: CanvasObject['type'][] = ['text', 'rect', 'circle'];
+const BLEND_MODES: BlendMode[] = ['normal', 'add', 'multiply', 'screen', 'overlay', 'difference'];
+const AUDIO_BANDS: AudioBand[] = ['level', 'low', 'mid', 'high', 'beat'];
+const UNIFORM_TYPES: UniformType[] = ['float', 'int', 'bool', 'vec2', 'vec3', 'vec4', 'color', 'enum'];
+
+// Booleans for bool uniforms, numbers for scalars and arrays of the right length for vectors
+const fitsUniformType = (type: UniformType, value: UniformValue): boolean => {
+  if (type === 'bool') return isBoolean(value);
+  if (type === 'float' || type === 'int' || type === 'enum') return isNumber(value);
+  return Array.isArray(value) && value.length === getVectorSize(type);
+};
+
+// Parsed JSON before validation; every field has to be checked before use
+type ProjectData = Record<string, unknown>;
+type Migration = (doc: ProjectData) => ProjectData;
+
+// Each migration upgrades a document from version N to N + 1
+const migrations: Record<number, Migration> = {
+  // Version 2 added the keyframe timeline
+  1: (doc) => ({
+    ...doc,
+    version: 2,
+    timeline: doc.timeline ?? createEmptyTimeline(),
+  }),
+  // Version 3 replaced the video URL with a pluggable input source
+  2: ({ videoUrl, ...doc }) => ({
+    ...doc,
+    version: 3,
+    source: typeof videoUrl === 'string' && videoUrl ? createUrlSource(videoUrl) : DEFAULT_SOURCE,
+  }),
+  // Version 4 added the node graph pipeline
+  3: (doc) => ({
+    ...doc,
+    version: 4,
+    pipeline: doc.pipeline ?? createEmptyPipeline(),
+  }),
+  // Version 5 moved objects into the pipeline; they used to sit on top of it
+  4: (doc) => ({
+    ...doc,
+    version: 5,
+    pipeline: isObject(doc.pipeline)
+      ? { ...doc.pipeline, objectPlacement: doc.pipeline.objectPlacement ?? DEFAULT_OBJECT_PLACEMENT }
+      : doc.pipeline,
+  }),
+  // Version 6 gave objects binding names for shader uniforms
+  5: (doc) => ({
+    ...doc,
+    version: 6,
+    objects: Array.isArray(doc.objects)
+      ? doc.objects.reduce((named: unknown[], obj: unknown) => {
+          if (!isObject(obj) || isString(obj.name) || !isOneOf(OBJECT_TYPES, obj.type)) return [...named, obj];
+          const taken = [...named, ...(doc.objects as unknown[])].filter(hasName);
+          return [...named, { ...obj, name: createBindingName(obj.type, taken) }];
+        }, [])
+      : doc.objects,
+  }),
+  // Version 7 added project snippets for #include
+  6: (doc) => ({
+    ...doc,
+    version: 7,
+    snippets: doc.snippets ?? [],
+  }),
+  // Version 8 added colour LUTs loaded from .cube files
+  7: (doc) => ({
+    ...doc,
+    version: 8,
+    luts: doc.luts ?? [],
+  }),
+  // Version 9 added LFO modulators
+  8: (doc) => ({
+    ...doc,
+    version: 9,
+    lfos: doc.lfos ?? [],
+  }),
+  // Version 10 added the clock mode. u_time used to be wall-clock time, so older
+  // projects keep a clock that runs while paused.
+  9: (doc) => ({
+    ...doc,
+    version: 10,
+    clockMode: doc.clockMode ?? 'wall',
+  }),
+};
+
+export function migrateProject(doc: ProjectData): ProjectData {
+  let current = doc;
+  if (!isNumber(current.version)) {
+    throw new ProjectLoadError('The file has no project format version.');
+  }
+  let version = current.version;
+
+  if (version > PROJECT_VERSION) {
+    throw new ProjectLoadError(
+      `This project was saved by a newer version of Shader Studio (format ${version}, supported up to ${PROJECT_VERSION}).`
+    );
+  }
+
+  while (version < PROJECT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new ProjectLoadError(`No migration available from project format ${version}.`);
+    }
+    current = migrate(current);
+    version++;
+  }
+
+  return current;
+}
+
+
+function validateShader(shader: unknown, path: string, errors: string[]) {
+  if (!isObject(shader)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!isString(shader.id)) errors.push(`${path}.id must be a string`);
+  if (!isString(shader.name)) errors.push(`${path}.name must be a string`);
+  if (!isString(shader.fragmentShader)) errors.push(`${path}.fragmentShader must be a string`);
+  if (!isBoolean(shader.enabled)) errors.push(`${path}.enabled must be a boolean`);
+  if (!isObject(shader.uniforms)) errors.push(`${path}.uniforms must be an object`);
+  if (shader.feedback !== undefined && !isOneOf(['none', 'self', 'final'], shader.feedback)) {
+    errors.push(`${path}.feedback must be none, self or final`);
+  }
+  if (shader.mask !== undefined && (!isObject(shader.mask) || !isString(shader.mask.objectId) || !isBoolean(shader.mask.invert))) {
+    errors.push(`${path}.mask must have an objectId and an invert flag`);
+  }
+  if (shader.blend !== undefined && (
+    !isObject(shader.blend) ||
+    !isOneOf(BLEND_MODES, shader.blend.mode) ||
+    !isNumber(shader.blend.opacity) || shader.blend.opacity < 0 || shader.blend.opacity > 1
+  )) {
+    errors.push(`${path}.blend must have a known mode and an opacity from 0 to 1`);
+  }
+  if (shader.bypass !== undefined && !isBoolean(shader.bypass)) errors.push(`${path}.bypass must be a boolean`);
+  if (shader.solo !== undefined && !isBoolean(shader.solo)) errors.push(`${path}.solo must be a boolean`);
+  if (shader.audio !== undefined) {
+    if (!isObject(shader.audio)) {
+      errors.push(`${path}.audio must be an object`);
+    } else {
+      Object.entries(shader.audio).forEach(([name, binding]) => {
+        if (
+          !isObject(binding) ||
+          !isOneOf(AUDIO_BANDS, binding.band) ||
+          !isNumber(binding.gain) ||
+          !isNumber(binding.smoothing)
+        ) {
+          errors.push(`${path}.audio.${name} must have a band, gain and smoothing`);
+        }
+      });
+    }
+  }
+  if (shader.expressions !== undefined && (!isObject(shader.expressions) || !Object.values(shader.expressions).every(isString))) {
+    errors.push(`${path}.expressions must map uniform names to expressions`);
+  }
+  if (shader.lut !== undefined && !isString(shader.lut)) errors.push(`${path}.lut must be a LUT id`);
+  if (shader.passes !== undefined) {
+    if (!Array.isArray(shader.passes)) {
+      errors.push(`${path}.passes must be an array`);
+    } else {
+      const names = new Set<string>();
+      shader.passes.forEach((pass: unknown, i: number) => {
+        if (!isObject(pass) || !isString(pass.name) || !isString(pass.fragmentShader)) {
+          errors.push(`${path}.passes[${i}] must have a name and fragmentShader`);
+        } else if (!isValidPassName(pass.name)) {
+          errors.push(`${path}.passes[${i}].name must be letters, digits and single underscores, as it becomes u_pass_${pass.name}`);
+        } else if (names.has(pass.name)) {
+          errors.push(`${path}.passes[${i}].name repeats "${pass.name}"`);
+        } else if (pass.scale !== undefined && (!isNumber(pass.scale) || pass.scale <= 0)) {
+          errors.push(`${path}.passes[${i}].scale must be a positive number`);
+        }
+        if (isObject(pass) && isString(pass.name)) names.add(pass.name);
+      });
+    }
+  }
+  if (!isObject(shader.uniformSchema)) {
+    errors.push(`${path}.uniformSchema must be an object`);
+    return;
+  }
+  const schema = shader.uniformSchema;
+  Object.entries(schema).forEach(([name, descriptor]) => {
+    if (!isObject(descriptor) || !isString(descriptor.label)) {
+      errors.push(`${path}.uniformSchema.${name} must have a type and label`);
+    } else if (!isOneOf(UNIFORM_TYPES, descriptor.type)) {
+      errors.push(`${path}.uniformSchema.${name}.type must be one of ${UNIFORM_TYPES.join(', ')}`);
+    }
+  });
+  if (!isObject(shader.uniforms)) return;
+  Object.entries(shader.uniforms).forEach(([name, value]) => {
+    const descriptor = schema[name];
+    const type = isObject(descriptor) && isOneOf(UNIFORM_TYPES, descriptor.type) ? descriptor.type : null;
+    if (!isUniformValue(value)) {
+      errors.push(`${path}.uniforms.${name} must be a number, a boolean or an array of numbers`);
+    } else if (type && !fitsUniformType(type, value)) {
+      errors.push(`${path}.uniforms.${name} does not match its ${type} type`);
+    }
+  });
+}
+
+function validatePlacement(placement: unknown, path: string, errors: string[]) {
+  if (!isObject(placement) || !isOneOf(['before', 'after', 'top'], placement.layer)) {
+    errors.push(`${path} must have a layer of before, after or top`);
+  } else if (placement.layer === 'after' && !isString(placement.shaderId)) {
+    errors.push(`${path}.shaderId must be a string`);
+  }
+}
+
+function validateObject(obj: unknown, path: string, errors: string[]) {
+  if (!isObject(obj)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!isString(obj.id)) errors.push(`${path}.id must be a string`);
+  if (!isString(obj.name)) errors.push(`${path}.name must be a string`);
+  if (!isOneOf(OBJECT_TYPES, obj.type)) errors.push(`${path}.type must be text, rect or circle`);
+  ['x', 'y', 'width', 'height', 'rotation'].forEach(key => {
+    if (!isNumber(obj[key])) errors.push(`${path}.${key} must be a number`);
+  });
+  if (!isString(obj.color)) errors.push(`${path}.color must be a string`);
+  if (typeof obj.visible !== 'boolean') errors.push(`${path}.visible must be a boolean`);
+  if (obj.placement !== undefined) validatePlacement(obj.placement, `${path}.placement`, errors);
+}
+
+function validateTimeline(timeline: unknown, errors: string[]) {
+  if (!isObject(timeline)) {
+    errors.push('timeline must be an object');
+    return;
+  }
+  if (!isNumber(timeline.duration) || timeline.duration <= 0) errors.push('timeline.duration must be a positive number');
+  if (!Array.isArray(timeline.tracks)) {
+    errors.push('timeline.tracks must be an array');
+    return;
+  }
+
+  timeline.tracks.forEach((track: unknown, i: number) => {
+    const path = `timeline.tracks[${i}]`;
+    if (!isObject(track) || !isString(track.id)) {
+      errors.push(`${path} must have an id`);
+      return;
+    }
+    if (!isObject(track.target) || !isOneOf(['uniform', 'object'], track.target.kind)) {
+      errors.push(`${path}.target must be a uniform or object target`);
+    }
+    if (!Array.isArray(track.keyframes)) {
+      errors.push(`${path}.keyframes must be an array`);
+      return;
+    }
+    track.keyframes.forEach((keyframe: unknown, j: number) => {
+      const keyPath = `${path}.keyframes[${j}]`;
+      if (!isObject(keyframe) || !isNumber(keyframe.time)) errors.push(`${keyPath}.time must be a number`);
+      else if (!Array.isArray(keyframe.value) || !keyframe.value.every(isNumber)) errors.push(`${keyPath}.value must be an array of numbers`);
+      else if (!isOneOf(EASING_TYPES, keyframe.easing)) errors.push(`${keyPath}.easing must be one of ${EASING_TYPES.join(', ')}`);
+    });
+  });
+}
+
+function validatePipeline(pipeline: unknown, errors: string[]) {
+  if (!isObject(pipeline)) {
+    errors.push('pipeline must be an object');
+    return;
+  }
+  if (pipeline.mode !== 'stack' && pipeline.mode !== 'graph') errors.push('pipeline.mode must be stack or graph');
+  if (pipeline.output !== null && !isString(pipeline.output)) errors.push('pipeline.output must be a node id or null');
+  validatePlacement(pipeline.objectPlacement, 'pipeline.objectPlacement', errors);
+  if (!Array.isArray(pipeline.nodes)) {
+    errors.push('pipeline.nodes must be an array');
+    return;
+  }
+
+  pipeline.nodes.forEach((node: unknown, i: number) => {
+    const path = `pipeline.nodes[${i}]`;
+    if (!isObject(node) || !isString(node.id) || !isString(node.shaderId)) {
+      errors.push(`${path} must have an id and shaderId`);
+      return;
+    }
+    if (!Array.isArray(node.inputs) || !node.inputs.every((input: unknown) => input === null || isString(input))) {
+      errors.push(`${path}.inputs must be an array of node ids or null`);
+    }
+    if (!isNumber(node.x) || !isNumber(node.y)) errors.push(`${path} must have a numeric x and y`);
+  });
+}
+
+function validateSnippets(snippets: unknown, errors: string[]) {
+  if (!Array.isArray(snippets)) {
+    errors.push('snippets must be an array');
+    return;
+  }
+  snippets.forEach((snippet: unknown, i: number) => {
+    if (!isObject(snippet) || !isString(snippet.name) || !isString(snippet.code)) {
+      errors.push(`snippets[${i}] must have a name and code`);
+    }
+  });
+}
+
+function validateLut(lut: unknown, path: string, errors: string[]) {
+  if (!isObject(lut) || !isString(lut.id) || !isString(lut.name)) {
+    errors.push(`${path} must have an id and name`);
+    return;
+  }
+  const isTriple = (value: unknown) => Array.isArray(value) && value.length === 3 && value.every(isNumber);
+  if (lut.kind !== '1d' && lut.kind !== '3d') errors.push(`${path}.kind must be 1d or 3d`);
+  else if (!isNumber(lut.size) || !Number.isInteger(lut.size) || lut.size < 2) errors.push(`${path}.size must be an integer of at least 2`);
+  else if (!isTriple(lut.domainMin) || !isTriple(lut.domainMax)) errors.push(`${path} must have a three-number domainMin and domainMax`);
+  else if (!isString(lut.data) || !isValidLutData({ kind: lut.kind, size: lut.size, data: lut.data })) errors.push(`${path}.data does not match its size`);
+}
+
+function validateLfo(lfo: unknown, path: string, errors: string[]) {
+  if (!isObject(lfo) || !isString(lfo.id) || !isString(lfo.name)) {
+    errors.push(`${path} must have an id and name`);
+    return;
+  }
+  if (!LFO_SHAPES.some(shape => shape.value === lfo.shape)) errors.push(`${path}.shape must be sine, square, saw or random`);
+  if (!isNumber(lfo.rate) || !isNumber(lfo.depth)) errors.push(`${path} must have a numeric rate and depth`);
+  if (!Array.isArray(lfo.targets) || !lfo.targets.every((target: unknown) => isObject(target) && isOneOf(['uniform', 'object'], target.kind))) {
+    errors.push(`${path}.targets must be an array of uniform or object targets`);
+  }
+}
+
+function validateSource(source: unknown, errors: string[]) {
+  if (!isObject(source)) {
+    errors.push('source must be an object');
+    return;
+  }
+  if (source.kind === 'url' || source.kind === 'file') {
+    if (!isString(source.url)) errors.push('source.url must be a string');
+    if (!isOneOf(['video', 'image'], source.media)) errors.push('source.media must be video or image');
+    if (source.kind === 'file' && !isString(source.name)) errors.push('source.name must be a string');
+  } else if (source.kind !== 'webcam' && source.kind !== 'screen') {
+    errors.push('source.kind must be url, file, webcam or screen');
+  }
+}
+
+export function validateProject(doc: ProjectData): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(doc.shaders)) {
+    errors.push('shaders must be an array');
+  } else {
+    doc.shaders.forEach((shader: unknown, i: number) => validateShader(shader, `shaders[${i}]`, errors));
+    // Ids key the shader list and pipeline nodes, so each must be unique
+    const ids = doc.shaders.filter(isObject).map(shader => shader.id).filter(isString);
+    new Set(ids.filter((id, i) => ids.indexOf(id) !== i)).forEach(id => errors.push(`Shader id "${id}" is used more than once`));
+  }
+
+  if (!Array.isArray(doc.objects)) {
+    errors.push('objects must be an array');
+  } else {
+    doc.objects.forEach((obj: unknown, i: number) => validateObject(obj, `objects[${i}]`, errors));
+  }
+
+  if (!isBoolean(doc.objectsVisible)) errors.push('objectsVisible must be a boolean');
+  validateTimeline(doc.timeline, errors);
+  validatePipeline(doc.pipeline, errors);
+  validateSnippets(doc.snippets, errors);
+  if (!Array.isArray(doc.luts)) {
+    errors.push('luts must be an array');
+  } else {
+    doc.luts.forEach((lut: unknown, i: number) => validateLut(lut, `luts[${i}]`, errors));
+  }
+  if (!Array.isArray(doc.lfos)) {
+    errors.push('lfos must be an array');
+  } else {
+    doc.lfos.forEach((lfo: unknown, i: number) => validateLfo(lfo, `lfos[${i}]`, errors));
+  }
+  if (doc.clockMode !== 'media' && doc.clockMode !== 'wall') errors.push('clockMode must be media or wall');
+  validateSource(doc.source, errors);
+
+  return errors;
+}
+
+export function createProjectDocument(state: Omit<ProjectDocument, 'version'>): ProjectDocument {
+  return {
+    version: PROJECT_VERSION,
+    shaders: state.shaders,
+    objects: state.objects,
+    objectsVisible: state.objectsVisible,
+    timeline: state.timeline,
+    pipeline: state.pipeline,
+    snippets: state.snippets,
+    luts: state.luts,
+    lfos: state.lfos,
+    clockMode: state.clockMode,
+    source: toProjectSource(state.source),
+  };
+}
+
+export function serializeProject(state: Omit<ProjectDocument, 'version'>): string {
+  return JSON.stringify(createProjectDocument(state), null, 2);
+}
+
+export function parseProject(json: string): ProjectDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new ProjectLoadError(`The file is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (!isObject(raw)) {
+    throw new ProjectLoadError('The file does not contain a Shader Studio project.');
+  }
+
+  const doc = migrateProject(raw);
+  const errors = validateProject(doc);
+  if (errors.length > 0) {
+    throw new ProjectLoadError('The project file is invalid.', errors);
+  }
+
+  // validateProject has checked every field
+  return doc as unknown as ProjectDocument;
+}
@@ -0,0 +1,108 @@
+import { ShaderError } from '../types';
+import { vertexShaderSource, vertexShaderSource300 } from '../shaders/defaultShaders';
+
+const VERSION_300 = /^\s*#version\s+300\s+es\b/;
+
+export function isGlsl300(fragmentShader: string): boolean {
+  return VERSION_300.test(fragmentShader);
+}
+
+export function getVertexShaderSource(fragmentShader: string): string {
+  return isGlsl300(fragmentShader) ? vertexShaderSource300 : vertexShaderSource;
+}
+
+// #version has to come first, so blank lines above it are dropped and a #line
+// directive keeps driver error lines matching the editor
+export function prepareFragmentShader(fragmentShader: string): string {
+  if (!isGlsl300(fragmentShader)) return fragmentShader;
+  const trimmed = fragmentShader.trimStart();
+  const skipped = fragmentShader.length - trimmed.length;
+  const skippedLines = fragmentShader.slice(0, skipped).split('\n').length - 1;
+  if (skippedLines === 0) return fragmentShader;
+
+  const [versionLine, ...rest] = trimmed.split('\n');
+  return [versionLine.trim(), `#line ${skippedLines + 2}`, ...rest].join('\n');
+}
+
+// Info log formats differ per driver:
+//   ANGLE/Chrome/Firefox: "ERROR: 0:12: 'foo' : undeclared identifier"
+//   Mesa:                 "0:12(5): error: syntax error, unexpected ..."
+//   NVIDIA:               "0(12) : error C0000: syntax error ..."
+const LOG_PATTERNS: RegExp[] = [
+  /^(?:ERROR|WARNING):\s*\d+:(\d+):(?:(\d+):)?\s*(.*)$/i,
+  /^\d+:(\d+)\((\d+)\):\s*(?:error|warning):\s*(.*)$/i,
+  /^\d+\((\d+)\)\s*:\s*(?:error|warning)\s*\w*:\s*(.*)$/i,
+];
+
+export function parseInfoLog(log: string, prefix = ''): ShaderError[] {
+  return log
+    .split('\n')
+    .map(line => line.replace(/\0/g, '').trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      for (const pattern of LOG_PATTERNS) {
+        const match = line.match(pattern);
+        if (!match) continue;
+
+        // The NVIDIA pattern has no column group
+        const hasColumn = match.length === 4;
+        return {
+          line: parseInt(match[1]),
+          column: hasColumn && match[2] ? parseInt(match[2]) : null,
+          message: prefix + (hasColumn ? match[3] : match[2]).trim(),
+        };
+      }
+      return { line: null, column: null, message: prefix + line };
+    });
+}
+
+function compileStage(gl: WebGLRenderingContext, type: number, source: string): { shader: WebGLShader | null; errors: ShaderError[] } {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    return { shader: null, errors: [{ line: null, column: null, message: 'Unable to create shader object' }] };
+  }
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+
+  if (gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    return { shader, errors: [] };
+  }
+
+  const prefix = type === gl.VERTEX_SHADER ? 'Vertex shader: ' : '';
+  const errors = parseInfoLog(gl.getShaderInfoLog(shader) || 'Unknown compile error', prefix);
+  gl.deleteShader(shader);
+  return { shader: null, errors };
+}
+
+// Compile and link a program on the side so driver errors can be reported
+// before handing the sources to regl, which would throw on failure
+export function checkProgram(gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string): ShaderError[] {
+  const vertex = compileStage(gl, gl.VERTEX_SHADER, vertexSource);
+  const fragment = compileStage(gl, gl.FRAGMENT_SHADER, fragmentSource);
+  const errors = [...vertex.errors, ...fragment.errors];
+
+  if (vertex.shader && fragment.shader) {
+    const program = gl.createProgram();
+    if (program) {
+      gl.attachShader(program, vertex.shader);
+      gl.attachShader(program, fragment.shader);
+      gl.linkProgram(program);
+
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        errors.push(...parseInfoLog(gl.getProgramInfoLog(program) || 'Unknown link error', 'Link: '));
+      }
+      gl.deleteProgram(program);
+    }
+  }
+
+  if (vertex.shader) gl.deleteShader(vertex.shader);
+  if (fragment.shader) gl.deleteShader(fragment.shader);
+
+  return errors;
+}
+
+export function formatShaderError(error: ShaderError): string {
+  if (error.line === null) return error.message;
+  return `Line ${error.line}${error.column !== null ? `:${error.column}` : ''}: ${error.message}`;
+}
@@ -0,0 +1,115 @@
+// Wraps Shadertoy-style code (mainImage, iTime, iChannel0, …) in this app's
+// u_texture / v_texCoord conventions so it compiles as a regular pass.
+
+// What iChannel1..3 read. iChannel0 is always the pass input.
+export type ShadertoyChannelSource = 'input' | 'feedback' | 'mask' | 'keyboard' | 'audio';
+
+export const SHADERTOY_CHANNEL_SOURCES: { value: ShadertoyChannelSource; label: string }[] = [
+  { value: 'input', label: 'Pass input (original source in the stack)' },
+  { value: 'feedback', label: 'Previous frame' },
+  { value: 'mask', label: 'Object mask' },
+  { value: 'keyboard', label: 'Keyboard' },
+  { value: 'audio', label: 'Audio (spectrum and waveform)' },
+];
+
+export const SHADERTOY_CHANNEL_COUNT = 4;
+
+const MAIN_IMAGE = /\bvoid\s+mainImage\s*\(/;
+const MAIN = /\bvoid\s+main\s*\(\s*(?:void)?\s*\)/;
+
+export function isShadertoyShader(source: string): boolean {
+  return MAIN_IMAGE.test(source) && !MAIN.test(source);
+}
+
+// Channels 1..3 the code samples, so only those need a source picked
+export function getUsedShadertoyChannels(source: string): number[] {
+  return Array.from({ length: SHADERTOY_CHANNEL_COUNT - 1 }, (_, i) => i + 1)
+    .filter(n => new RegExp(`\\biChannel${n}\\b`).test(source));
+}
+
+const channelSampler = (channel: number, source: ShadertoyChannelSource) => {
+  switch (source) {
+    case 'feedback': return 'u_prevFrame';
+    case 'mask': return 'u_objectMask';
+    case 'keyboard': return 'u_keyboard';
+    case 'audio': return 'u_audioSpectrum';
+    default: return `u_texture${channel}`;
+  }
+};
+
+export interface ShadertoyConversion {
+  fragmentShader: string;
+  // True when a channel reads the previous frame, so the pass needs feedback turned on
+  usesFeedback: boolean;
+}
+
+// fragCoord is v_texCoord in pixels: Shadertoy's bottom-left origin and pixel
+// centres carry over unchanged, at whatever size the pass renders. Shadertoy code
+// is GLSL ES 3.00, so that is what it becomes on WebGL2; the ES 1.00 wrapper for
+// WebGL1 maps texture() onto texture2D() and can't keep texture LODs.
+export function convertShadertoy(
+  source: string,
+  channels: Partial<Record<number, ShadertoyChannelSource>> = {},
+  glsl300 = true
+): ShadertoyConversion {
+  const samplers = new Set<string>(['u_texture0']);
+  const defines = [`#define iChannel0 u_texture0`];
+  getUsedShadertoyChannels(source).forEach(n => {
+    const sampler = channelSampler(n, channels[n] ?? 'input');
+    samplers.add(sampler);
+    defines.push(`#define iChannel${n} ${sampler}`);
+  });
+
+  const header = glsl300
+    ? `#version 300 es
+// Converted from Shadertoy
+precision highp float;
+precision highp int;
+`
+    : `// Converted from Shadertoy
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+`;
+
+  const fragmentShader = `${header}
+${[...samplers].map(sampler => `uniform sampler2D ${sampler};`).join('\n')}
+uniform vec2 u_resolution;
+uniform float u_time;
+uniform float u_deltaTime;
+uniform float u_frame;
+uniform vec2 u_mouse;
+uniform float u_mouseDown;
+uniform vec2 u_clickPos;
+${glsl300 ? 'in vec2 v_texCoord;\nout vec4 shadertoyColor;' : 'varying vec2 v_texCoord;'}
+
+${defines.join('\n')}
+#define iTime u_time
+#define iTimeDelta u_deltaTime
+#define iFrame int(u_frame)
+#define iResolution vec3(u_resolution, 1.0)
+// xy: pointer position in pixels; zw: click position, negative once released
+#define iMouse vec4(u_mouse * u_resolution, u_clickPos * u_resolution * (u_mouseDown > 0.5 ? 1.0 : -1.0))
+${glsl300 ? '' : `#define texture texture2D
+#define textureLod(sampler, uv, lod) texture2D(sampler, uv)
+`}vec3 iChannelResolution[${SHADERTOY_CHANNEL_COUNT}];
+
+${source.trim()}
+
+void main() {
+  for (int i = 0; i < ${SHADERTOY_CHANNEL_COUNT}; i++) {
+    iChannelResolution[i] = iResolution;
+  }
+  vec4 color = vec4(0.0, 0.0, 0.0, 1.0);
+  mainImage(color, v_texCoord * u_resolution);
+  ${glsl300 ? 'shadertoyColor' : 'gl_FragColor'} = vec4(color.rgb, 1.0);
+}
+`;
+
+  return {
+    fragmentShader,
+    usesFeedback: fragmentShader.includes('u_prevFrame'),
+  };
+}
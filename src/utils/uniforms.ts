@@ -0,0 +1,71 @@
+import { UniformDescriptor, UniformType, UniformValue } from '../types';
+
+const VECTOR_SIZES: Partial<Record<UniformType, number>> = {
+  vec2: 2,
+  vec3: 3,
+  vec4: 4,
+  color: 3,
+};
+
+export function getVectorSize(type: UniformType): number {
+  return VECTOR_SIZES[type] ?? 1;
+}
+
+// Turn "u_blur_amount" into "Blur Amount" for uniforms without an explicit label
+export function formatUniformLabel(name: string): string {
+  return name
+    .replace(/^u_/, '')
+    .split('_')
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+export function hexToRgb(hex: string): number[] {
+  const color = hex.replace('#', '');
+  const r = parseInt(color.substring(0, 2), 16) / 255;
+  const g = parseInt(color.substring(2, 4), 16) / 255;
+  const b = parseInt(color.substring(4, 6), 16) / 255;
+  return [r, g, b].map(c => (Number.isNaN(c) ? 0 : c));
+}
+
+export function rgbToHex(rgb: number[]): string {
+  return '#' + [0, 1, 2]
+    .map(i => Math.round(Math.min(1, Math.max(0, rgb[i] ?? 0)) * 255).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Number of decimals to display for a given slider step
+export function getStepPrecision(step: number): number {
+  if (step >= 1) return 0;
+  return step < 0.01 ? 3 : 2;
+}
+
+// Coerce a stored value into the shape the descriptor expects
+export function normalizeUniformValue(descriptor: UniformDescriptor, value: UniformValue | undefined): UniformValue {
+  const fallback = value === undefined ? descriptor.default : value;
+
+  switch (descriptor.type) {
+    case 'bool':
+      return Array.isArray(fallback) ? Boolean(fallback[0]) : Boolean(fallback);
+    case 'int':
+    case 'enum':
+      return Math.round(Number(Array.isArray(fallback) ? fallback[0] : fallback) || 0);
+    case 'float':
+      return Number(Array.isArray(fallback) ? fallback[0] : fallback) || 0;
+    default: {
+      const size = getVectorSize(descriptor.type);
+      const source = Array.isArray(fallback) ? fallback : new Array(size).fill(Number(fallback) || 0);
+      return Array.from({ length: size }, (_, i) => Number(source[i]) || 0);
+    }
+  }
+}
+
+// Convert a stored value into what regl expects for the GLSL uniform
+export function toGLValue(descriptor: UniformDescriptor, value: UniformValue | undefined): number | number[] {
+  const normalized = normalizeUniformValue(descriptor, value);
+  if (typeof normalized === 'boolean') {
+    return normalized ? 1 : 0;
+  }
+  return normalized;
+}
@@ -0,0 +1,40 @@
+// regl only speaks WebGL1, where half-float textures come from extensions and use
+// the unsized RGBA format. WebGL2 has them built in but can only render into the
+// sized RGBA16F format, and only with EXT_color_buffer_float, so regl's WebGL1
+// calls are mapped onto that.
+const HALF_FLOAT_OES = 0x8d61;
+
+// Extensions to ask regl for once the context has been adapted
+export const FLOAT_TARGET_EXTENSIONS = ['oes_texture_half_float', 'ext_color_buffer_half_float'];
+
+// Returns whether render targets can be half float
+export function adaptWebGL2ForRegl(gl: WebGL2RenderingContext): boolean {
+  const colorBufferFloat = gl.getExtension('EXT_color_buffer_float');
+  if (!colorBufferFloat) return false;
+
+  const getExtension = gl.getExtension.bind(gl);
+  const emulated: Record<string, unknown> = {
+    oes_texture_half_float: { HALF_FLOAT_OES },
+    ext_color_buffer_half_float: colorBufferFloat,
+  };
+  gl.getExtension = ((name: string) => emulated[name.toLowerCase()] ?? getExtension(name)) as typeof gl.getExtension;
+
+  const texImage2D = gl.texImage2D.bind(gl) as (...args: unknown[]) => void;
+  gl.texImage2D = ((...args: unknown[]) => {
+    // (target, level, internalformat, width, height, border, format, type, pixels)
+    if (args.length === 9 && args[7] === HALF_FLOAT_OES) {
+      args[2] = gl.RGBA16F;
+      args[7] = gl.HALF_FLOAT;
+    }
+    texImage2D(...args);
+  }) as typeof gl.texImage2D;
+
+  const texSubImage2D = gl.texSubImage2D.bind(gl) as (...args: unknown[]) => void;
+  gl.texSubImage2D = ((...args: unknown[]) => {
+    // (target, level, x, y, width, height, format, type, pixels)
+    if (args.length === 9 && args[7] === HALF_FLOAT_OES) args[7] = gl.HALF_FLOAT;
+    texSubImage2D(...args);
+  }) as typeof gl.texSubImage2D;
+
+  return true;
+}